@@ -0,0 +1,143 @@
+-- AlterTable
+ALTER TABLE "tutor_profiles" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- CreateTable
+CREATE TABLE "availability_rules" (
+    "id" TEXT NOT NULL,
+    "tutorProfileId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "availability_overrides" (
+    "id" TEXT NOT NULL,
+    "tutorProfileId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "availability_rules_tutorProfileId_idx" ON "availability_rules"("tutorProfileId");
+
+-- CreateIndex
+CREATE INDEX "availability_overrides_tutorProfileId_date_idx" ON "availability_overrides"("tutorProfileId", "date");
+
+-- AddForeignKey
+ALTER TABLE "availability_rules" ADD CONSTRAINT "availability_rules_tutorProfileId_fkey" FOREIGN KEY ("tutorProfileId") REFERENCES "tutor_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "availability_overrides" ADD CONSTRAINT "availability_overrides_tutorProfileId_fkey" FOREIGN KEY ("tutorProfileId") REFERENCES "tutor_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate legacy availability JSON.
+-- Recognized shape: { "timezone"?: "<IANA name>", "<weekday name>": [{ "start"|"startTime": "HH:mm", "end"|"endTime": "HH:mm" }] }
+-- Anything else cannot be interpreted reliably: the recognized parts are migrated, and the original
+-- JSON is kept in legacy_availability_rejects with the reasons so it can be repaired by hand.
+CREATE TABLE "legacy_availability_rejects" (
+    "tutorProfileId" TEXT NOT NULL,
+    "availability" JSONB NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "legacy_availability_rejects_pkey" PRIMARY KEY ("tutorProfileId")
+);
+
+INSERT INTO "legacy_availability_rejects" ("tutorProfileId", "availability", "reason")
+SELECT tp."id", tp."availability", problems."reason"
+FROM "tutor_profiles" tp
+CROSS JOIN LATERAL (
+    SELECT string_agg(p.problem, '; ') AS "reason"
+    FROM (
+        SELECT 'not a JSON object' AS problem
+        WHERE jsonb_typeof(tp."availability") <> 'object'
+        UNION ALL
+        SELECT format('unknown timezone %s', tp."availability"->'timezone')
+        WHERE jsonb_typeof(tp."availability") = 'object'
+          AND tp."availability" ? 'timezone'
+          AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tp."availability"->>'timezone')
+        UNION ALL
+        SELECT CASE
+            WHEN lower(day.key) NOT IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday')
+                THEN format('unrecognized key "%s"', day.key)
+            ELSE format('"%s" is not a list of time ranges', day.key)
+        END
+        FROM jsonb_each(
+            CASE WHEN jsonb_typeof(tp."availability") = 'object' THEN tp."availability" ELSE '{}'::jsonb END
+        ) AS day(key, value)
+        WHERE day.key <> 'timezone'
+          AND (
+              lower(day.key) NOT IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday')
+              OR jsonb_typeof(day.value) <> 'array'
+          )
+        UNION ALL
+        SELECT format('invalid time range %s on "%s"', slot, day.key)
+        FROM jsonb_each(
+            CASE WHEN jsonb_typeof(tp."availability") = 'object' THEN tp."availability" ELSE '{}'::jsonb END
+        ) AS day(key, value)
+        CROSS JOIN LATERAL jsonb_array_elements(
+            CASE WHEN jsonb_typeof(day.value) = 'array' THEN day.value ELSE '[]'::jsonb END
+        ) AS slot
+        WHERE lower(day.key) IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday')
+          AND NOT COALESCE(
+              COALESCE(slot->>'start', slot->>'startTime') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+              AND COALESCE(slot->>'end', slot->>'endTime') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+              AND COALESCE(slot->>'start', slot->>'startTime') < COALESCE(slot->>'end', slot->>'endTime'),
+              false
+          )
+    ) AS p
+) AS problems
+WHERE tp."availability" IS NOT NULL
+  AND jsonb_typeof(tp."availability") <> 'null'
+  AND problems."reason" IS NOT NULL;
+
+DO $$
+DECLARE
+    rejected INTEGER;
+BEGIN
+    SELECT count(*) INTO rejected FROM "legacy_availability_rejects";
+    IF rejected > 0 THEN
+        RAISE WARNING '% tutor profiles had availability that could not be fully migrated; see legacy_availability_rejects', rejected;
+    END IF;
+END $$;
+
+UPDATE "tutor_profiles"
+SET "timezone" = "availability"->>'timezone'
+WHERE jsonb_typeof("availability") = 'object'
+  AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = "availability"->>'timezone');
+
+INSERT INTO "availability_rules" ("id", "tutorProfileId", "dayOfWeek", "startTime", "endTime", "updatedAt")
+SELECT gen_random_uuid()::text, legacy."id", legacy."dayOfWeek", legacy."startTime", legacy."endTime", CURRENT_TIMESTAMP
+FROM (
+    SELECT
+        tp."id",
+        weekday.dow AS "dayOfWeek",
+        COALESCE(slot->>'start', slot->>'startTime') AS "startTime",
+        COALESCE(slot->>'end', slot->>'endTime') AS "endTime"
+    FROM "tutor_profiles" tp
+    CROSS JOIN LATERAL jsonb_each(
+        CASE WHEN jsonb_typeof(tp."availability") = 'object' THEN tp."availability" ELSE '{}'::jsonb END
+    ) AS day(key, value)
+    JOIN (VALUES
+        ('sunday', 0), ('monday', 1), ('tuesday', 2), ('wednesday', 3),
+        ('thursday', 4), ('friday', 5), ('saturday', 6)
+    ) AS weekday(name, dow) ON lower(day.key) = weekday.name
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(day.value) = 'array' THEN day.value ELSE '[]'::jsonb END
+    ) AS slot
+) AS legacy
+WHERE legacy."startTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+  AND legacy."endTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+  AND legacy."startTime" < legacy."endTime";
+
+-- AlterTable
+ALTER TABLE "tutor_profiles" DROP COLUMN "availability";
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "tutor_profiles" ADD COLUMN     "bufferMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "maxAdvanceDays" INTEGER NOT NULL DEFAULT 60,
+ADD COLUMN     "minNoticeHours" INTEGER NOT NULL DEFAULT 12;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "tutorId" TEXT NOT NULL,
+    "intervalWeeks" INTEGER NOT NULL DEFAULT 1,
+    "occurrences" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL DEFAULT 60,
+    "subject" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_series_studentId_idx" ON "booking_series"("studentId");
+
+-- CreateIndex
+CREATE INDEX "booking_series_tutorId_idx" ON "booking_series"("tutorId");
+
+-- CreateIndex
+CREATE INDEX "bookings_seriesId_idx" ON "bookings"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "booking_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_tutorId_fkey" FOREIGN KEY ("tutorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "RescheduleStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'WITHDRAWN', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "reschedule_proposals" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "proposedById" TEXT NOT NULL,
+    "dateTime" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "previousDateTime" TIMESTAMP(3) NOT NULL,
+    "previousDuration" INTEGER NOT NULL,
+    "reason" TEXT,
+    "status" "RescheduleStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reschedule_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reschedule_proposals_bookingId_idx" ON "reschedule_proposals"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "reschedule_proposals_status_expiresAt_idx" ON "reschedule_proposals"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_proposals" ADD CONSTRAINT "reschedule_proposals_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_proposals" ADD CONSTRAINT "reschedule_proposals_proposedById_fkey" FOREIGN KEY ("proposedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "booking_events" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" TEXT NOT NULL,
+    "fromStatus" "BookingStatus",
+    "toStatus" "BookingStatus" NOT NULL,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_events_bookingId_createdAt_idx" ON "booking_events"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: creation event for every existing booking
+INSERT INTO "booking_events" ("id", "bookingId", "actorId", "action", "fromStatus", "toStatus", "metadata", "createdAt")
+SELECT gen_random_uuid()::text, b."id", b."studentId", 'create', NULL, 'PENDING', '{"backfilled": true}'::jsonb, b."createdAt"
+FROM "bookings" b;
+
+-- Backfill: last known transition, with the reason previously appended to notes.
+-- Cancellations could come from either party, so their actor and previous status are unknown.
+INSERT INTO "booking_events" ("id", "bookingId", "actorId", "action", "fromStatus", "toStatus", "reason", "metadata", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    b."id",
+    CASE WHEN b."status" = 'CANCELLED' THEN NULL ELSE b."tutorId" END,
+    CASE b."status"
+        WHEN 'CONFIRMED' THEN 'approve'
+        WHEN 'REJECTED' THEN 'reject'
+        WHEN 'CANCELLED' THEN 'cancel'
+        WHEN 'COMPLETED' THEN 'complete'
+    END,
+    CASE b."status"
+        WHEN 'CONFIRMED' THEN 'PENDING'::"BookingStatus"
+        WHEN 'REJECTED' THEN 'PENDING'::"BookingStatus"
+        WHEN 'COMPLETED' THEN 'CONFIRMED'::"BookingStatus"
+        ELSE NULL
+    END,
+    b."status",
+    substring(b."notes" from '\[(?:REJECTION|CANCELLATION) REASON\]\n(.*)$'),
+    '{"backfilled": true}'::jsonb,
+    b."updatedAt"
+FROM "bookings" b
+WHERE b."status" <> 'PENDING';
+
+-- Strip the reason blocks so notes only contain the student's original message
+UPDATE "bookings"
+SET "notes" = NULLIF(regexp_replace("notes", '(\n\n)?\[(REJECTION|CANCELLATION) REASON\]\n.*$', ''), '')
+WHERE "notes" ~ '\[(REJECTION|CANCELLATION) REASON\]\n';
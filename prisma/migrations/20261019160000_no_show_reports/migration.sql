@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'NO_SHOW';
+
+-- CreateEnum
+CREATE TYPE "NoShowStatus" AS ENUM ('REPORTED', 'CONTESTED', 'UPHELD', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "no_show_reports" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "absentUserId" TEXT NOT NULL,
+    "status" "NoShowStatus" NOT NULL DEFAULT 'REPORTED',
+    "reason" TEXT,
+    "contestReason" TEXT,
+    "contestedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "no_show_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "no_show_reports_bookingId_key" ON "no_show_reports"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "no_show_reports_absentUserId_status_idx" ON "no_show_reports"("absentUserId", "status");
+
+-- CreateIndex
+CREATE INDEX "no_show_reports_status_idx" ON "no_show_reports"("status");
+
+-- AddForeignKey
+ALTER TABLE "no_show_reports" ADD CONSTRAINT "no_show_reports_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "no_show_reports" ADD CONSTRAINT "no_show_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "no_show_reports" ADD CONSTRAINT "no_show_reports_absentUserId_fkey" FOREIGN KEY ("absentUserId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
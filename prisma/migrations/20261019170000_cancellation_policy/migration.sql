@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "tutor_profiles" ADD COLUMN     "freeCancellationHours" INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN     "lateCancellationFeeRate" DOUBLE PRECISION NOT NULL DEFAULT 0.5;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "cancelledById" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "lateCancellation" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "cancellationFee" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "bookings_cancelledById_lateCancellation_idx" ON "bookings"("cancelledById", "lateCancellation");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_cancelledById_fkey" FOREIGN KEY ("cancelledById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "hourlyRate" DOUBLE PRECISION,
+ADD COLUMN     "totalPrice" DOUBLE PRECISION;
+
+-- Backfill existing bookings with the tutor's current rate (the best information available)
+UPDATE "bookings" AS b
+SET "hourlyRate" = tp."hourlyRate",
+    "totalPrice" = ROUND((tp."hourlyRate" * b."duration" / 60.0)::numeric, 2)
+FROM "tutor_profiles" AS tp
+WHERE tp."userId" = b."tutorId";
+
+UPDATE "bookings" SET "hourlyRate" = 0, "totalPrice" = 0 WHERE "hourlyRate" IS NULL;
+
+-- AlterTable
+ALTER TABLE "bookings" ALTER COLUMN "hourlyRate" SET NOT NULL,
+ALTER COLUMN "totalPrice" SET NOT NULL;
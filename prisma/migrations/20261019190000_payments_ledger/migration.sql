@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('PROVIDER_CLEARING', 'ESCROW', 'TUTOR_PAYABLE', 'PLATFORM_REVENUE');
+
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('CHARGE', 'RELEASE', 'REFUND', 'PENALTY', 'REVERSAL', 'PAYOUT');
+
+-- CreateTable
+CREATE TABLE "ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "bookingId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "providerReference" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "userId" TEXT,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_bookingId_type_idx" ON "ledger_transactions"("bookingId", "type");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_type_createdAt_idx" ON "ledger_transactions"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "ledger_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_account_userId_idx" ON "ledger_entries"("account", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "ledger_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
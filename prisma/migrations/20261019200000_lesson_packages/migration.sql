@@ -0,0 +1,77 @@
+-- AlterEnum
+ALTER TYPE "LedgerAccount" ADD VALUE 'STUDENT_CREDIT';
+
+-- AlterEnum
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'PACKAGE_PURCHASE';
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'CREDIT_REDEMPTION';
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'CREDIT_RETURN';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "packagePurchaseId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ledger_transactions" ADD COLUMN     "packagePurchaseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "lesson_packages" (
+    "id" TEXT NOT NULL,
+    "tutorId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "lessons" INTEGER NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lesson_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "package_purchases" (
+    "id" TEXT NOT NULL,
+    "packageId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "tutorId" TEXT NOT NULL,
+    "lessons" INTEGER NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "pricePerLesson" DOUBLE PRECISION NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "creditsRemaining" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "package_purchases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_packagePurchaseId_idx" ON "bookings"("packagePurchaseId");
+
+-- CreateIndex
+CREATE INDEX "lesson_packages_tutorId_active_idx" ON "lesson_packages"("tutorId", "active");
+
+-- CreateIndex
+CREATE INDEX "package_purchases_studentId_tutorId_duration_idx" ON "package_purchases"("studentId", "tutorId", "duration");
+
+-- CreateIndex
+CREATE INDEX "package_purchases_tutorId_idx" ON "package_purchases"("tutorId");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_packagePurchaseId_fkey" FOREIGN KEY ("packagePurchaseId") REFERENCES "package_purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_packagePurchaseId_fkey" FOREIGN KEY ("packagePurchaseId") REFERENCES "package_purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_packages" ADD CONSTRAINT "lesson_packages_tutorId_fkey" FOREIGN KEY ("tutorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_purchases" ADD CONSTRAINT "package_purchases_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "lesson_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_purchases" ADD CONSTRAINT "package_purchases_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_purchases" ADD CONSTRAINT "package_purchases_tutorId_fkey" FOREIGN KEY ("tutorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
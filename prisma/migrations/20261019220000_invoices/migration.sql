@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "tutorId" TEXT NOT NULL,
+    "studentName" TEXT NOT NULL,
+    "studentEmail" TEXT NOT NULL,
+    "tutorName" TEXT NOT NULL,
+    "tutorEmail" TEXT NOT NULL,
+    "sessionDate" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "subject" TEXT,
+    "hourlyRate" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "paidWithCredit" BOOLEAN NOT NULL DEFAULT false,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_bookingId_key" ON "invoices"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "invoices_studentId_idx" ON "invoices"("studentId");
+
+-- CreateIndex
+CREATE INDEX "invoices_tutorId_idx" ON "invoices"("tutorId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_tutorId_fkey" FOREIGN KEY ("tutorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Issued invoices are immutable
+CREATE FUNCTION "invoices_prevent_update"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Invoice % has been issued and cannot be changed', OLD."number";
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "invoices_immutable" BEFORE UPDATE ON "invoices"
+    FOR EACH ROW EXECUTE FUNCTION "invoices_prevent_update"();
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "CommissionRuleScope" AS ENUM ('GLOBAL', 'CATEGORY', 'NEW_TUTOR');
+
+-- AlterEnum
+ALTER TYPE "LedgerAccount" ADD VALUE 'TAX_PAYABLE';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "region" TEXT;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "commissionAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "commissionRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRegion" TEXT;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "commission_rules" (
+    "id" TEXT NOT NULL,
+    "scope" "CommissionRuleScope" NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "categoryId" TEXT,
+    "newTutorDays" INTEGER,
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commission_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commission_rules_scope_active_idx" ON "commission_rules"("scope", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_rates_region_key" ON "tax_rates"("region");
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "tutor_profiles_rating_idx" ON "tutor_profiles"("rating");
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_hourlyRate_idx" ON "tutor_profiles"("hourlyRate");
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_experience_idx" ON "tutor_profiles"("experience");
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_subjects_idx" ON "tutor_profiles" USING GIN ("subjects");
@@ -0,0 +1,78 @@
+-- Trigram similarity for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "tutor_profiles" ADD COLUMN     "searchText" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "searchVector" tsvector;
+
+-- Build a profile's search document from its tutor's name, subjects, category names and bio
+CREATE FUNCTION "tutor_profiles_build_search"() RETURNS TRIGGER AS $$
+DECLARE
+    tutor_name TEXT;
+    category_names TEXT;
+BEGIN
+    SELECT u."name" INTO tutor_name FROM "users" u WHERE u."id" = NEW."userId";
+
+    SELECT string_agg(c."name", ' ') INTO category_names
+    FROM "_TutorCategories" tc
+    JOIN "categories" c ON c."id" = tc."A"
+    WHERE tc."B" = NEW."id";
+
+    NEW."searchText" := concat_ws(' ', tutor_name, array_to_string(NEW."subjects", ' '), category_names, NEW."bio");
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(tutor_name, '')), 'A') ||
+        setweight(to_tsvector('english', array_to_string(NEW."subjects", ' ')), 'A') ||
+        setweight(to_tsvector('english', coalesce(category_names, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW."bio", '')), 'C');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Writing "searchText" is how the triggers below ask for a rebuild
+CREATE TRIGGER "tutor_profiles_search" BEFORE INSERT OR UPDATE OF "userId", "bio", "subjects", "searchText"
+    ON "tutor_profiles" FOR EACH ROW EXECUTE FUNCTION "tutor_profiles_build_search"();
+
+CREATE FUNCTION "users_refresh_tutor_search"() RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE "tutor_profiles" SET "searchText" = '' WHERE "userId" = NEW."id";
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "users_tutor_search" AFTER UPDATE OF "name" ON "users"
+    FOR EACH ROW EXECUTE FUNCTION "users_refresh_tutor_search"();
+
+CREATE FUNCTION "categories_refresh_tutor_search"() RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE "tutor_profiles" SET "searchText" = ''
+    WHERE "id" IN (SELECT tc."B" FROM "_TutorCategories" tc WHERE tc."A" = NEW."id");
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "categories_tutor_search" AFTER UPDATE OF "name" ON "categories"
+    FOR EACH ROW EXECUTE FUNCTION "categories_refresh_tutor_search"();
+
+CREATE FUNCTION "tutor_categories_refresh_tutor_search"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE "tutor_profiles" SET "searchText" = '' WHERE "id" = OLD."B";
+    ELSE
+        UPDATE "tutor_profiles" SET "searchText" = '' WHERE "id" = NEW."B";
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tutor_categories_tutor_search" AFTER INSERT OR DELETE ON "_TutorCategories"
+    FOR EACH ROW EXECUTE FUNCTION "tutor_categories_refresh_tutor_search"();
+
+-- Backfill existing profiles
+UPDATE "tutor_profiles" SET "searchText" = '';
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_searchVector_idx" ON "tutor_profiles" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_searchText_idx" ON "tutor_profiles" USING GIN ("searchText" gin_trgm_ops);
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "TutorProfileStatus" AS ENUM ('DRAFT', 'PENDING_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED');
+
+-- AlterTable
+ALTER TABLE "tutor_profiles" ADD COLUMN     "status" "TutorProfileStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "statusReason" TEXT,
+ADD COLUMN     "submittedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedAt" TIMESTAMP(3);
+
+-- Profiles that were already public stay public
+UPDATE "tutor_profiles" SET "status" = 'APPROVED', "reviewedAt" = CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "tutor_profiles_status_idx" ON "tutor_profiles"("status");
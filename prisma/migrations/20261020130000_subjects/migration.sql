@@ -0,0 +1,175 @@
+-- CreateEnum
+CREATE TYPE "SubjectStatus" AS ENUM ('PENDING', 'APPROVED', 'MERGED');
+
+-- CreateTable
+CREATE TABLE "subjects" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "status" "SubjectStatus" NOT NULL DEFAULT 'APPROVED',
+    "suggestedById" TEXT,
+    "mergedIntoId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subjects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_TutorSubjects" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "subjectId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subjects_slug_key" ON "subjects"("slug");
+
+-- CreateIndex
+CREATE INDEX "subjects_categoryId_idx" ON "subjects"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "subjects_status_idx" ON "subjects"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_TutorSubjects_AB_unique" ON "_TutorSubjects"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_TutorSubjects_B_index" ON "_TutorSubjects"("B");
+
+-- CreateIndex
+CREATE INDEX "bookings_subjectId_idx" ON "bookings"("subjectId");
+
+-- AddForeignKey
+ALTER TABLE "subjects" ADD CONSTRAINT "subjects_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subjects" ADD CONSTRAINT "subjects_suggestedById_fkey" FOREIGN KEY ("suggestedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subjects" ADD CONSTRAINT "subjects_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "subjects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "subjects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TutorSubjects" ADD CONSTRAINT "_TutorSubjects_A_fkey" FOREIGN KEY ("A") REFERENCES "subjects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TutorSubjects" ADD CONSTRAINT "_TutorSubjects_B_fkey" FOREIGN KEY ("B") REFERENCES "tutor_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Canonicalize the subjects tutors listed: spellings with the same slug
+-- ("Math", "math ", "MATH") become one subject named after the most common spelling.
+-- Booking subjects were free-text session topics ("chapter 3 homework"), so they only
+-- link to a subject a tutor listed; the others are kept as text without a subject.
+-- Must match slugifySubject in src/utils/subjects.ts.
+CREATE FUNCTION "subject_slug"(name TEXT) RETURNS TEXT AS $$
+    SELECT btrim(
+        regexp_replace(
+            replace(replace(replace(lower(name), '+', ' plus '), '#', ' sharp '), '&', ' and '),
+            '[^a-z0-9]+', '-', 'g'
+        ),
+        '-'
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TEMPORARY TABLE "subject_spellings" AS
+SELECT regexp_replace(btrim(s."name"), '\s+', ' ', 'g') AS "name", "subject_slug"(s."name") AS "slug"
+FROM (
+    SELECT unnest(tp."subjects") AS "name" FROM "tutor_profiles" tp
+) s;
+
+INSERT INTO "subjects" ("id", "name", "slug", "updatedAt")
+SELECT gen_random_uuid()::text, mode() WITHIN GROUP (ORDER BY sp."name"), sp."slug", CURRENT_TIMESTAMP
+FROM "subject_spellings" sp
+WHERE sp."slug" <> ''
+GROUP BY sp."slug";
+
+INSERT INTO "_TutorSubjects" ("A", "B")
+SELECT DISTINCT s."id", tp."id"
+FROM "tutor_profiles" tp
+CROSS JOIN LATERAL unnest(tp."subjects") AS ts("name")
+JOIN "subjects" s ON s."slug" = "subject_slug"(ts."name");
+
+UPDATE "bookings" b SET "subjectId" = s."id", "subject" = s."name"
+FROM "subjects" s
+WHERE s."slug" = "subject_slug"(b."subject");
+
+UPDATE "booking_series" bs SET "subject" = s."name"
+FROM "subjects" s
+WHERE s."slug" = "subject_slug"(bs."subject");
+
+DROP TABLE "subject_spellings";
+DROP FUNCTION "subject_slug"(TEXT);
+
+-- Search documents now take subject names from the subjects table
+DROP TRIGGER "tutor_profiles_search" ON "tutor_profiles";
+
+-- DropIndex
+DROP INDEX "tutor_profiles_subjects_idx";
+
+-- AlterTable
+ALTER TABLE "tutor_profiles" DROP COLUMN "subjects";
+
+CREATE OR REPLACE FUNCTION "tutor_profiles_build_search"() RETURNS TRIGGER AS $$
+DECLARE
+    tutor_name TEXT;
+    subject_names TEXT;
+    category_names TEXT;
+BEGIN
+    SELECT u."name" INTO tutor_name FROM "users" u WHERE u."id" = NEW."userId";
+
+    SELECT string_agg(s."name", ' ') INTO subject_names
+    FROM "_TutorSubjects" ts
+    JOIN "subjects" s ON s."id" = ts."A"
+    WHERE ts."B" = NEW."id" AND s."status" = 'APPROVED';
+
+    SELECT string_agg(c."name", ' ') INTO category_names
+    FROM "_TutorCategories" tc
+    JOIN "categories" c ON c."id" = tc."A"
+    WHERE tc."B" = NEW."id";
+
+    NEW."searchText" := concat_ws(' ', tutor_name, subject_names, category_names, NEW."bio");
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(tutor_name, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(subject_names, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(category_names, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(NEW."bio", '')), 'C');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tutor_profiles_search" BEFORE INSERT OR UPDATE OF "userId", "bio", "searchText"
+    ON "tutor_profiles" FOR EACH ROW EXECUTE FUNCTION "tutor_profiles_build_search"();
+
+CREATE FUNCTION "subjects_refresh_tutor_search"() RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE "tutor_profiles" SET "searchText" = ''
+    WHERE "id" IN (SELECT ts."B" FROM "_TutorSubjects" ts WHERE ts."A" = NEW."id");
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "subjects_tutor_search" AFTER UPDATE OF "name", "status" ON "subjects"
+    FOR EACH ROW EXECUTE FUNCTION "subjects_refresh_tutor_search"();
+
+CREATE FUNCTION "tutor_subjects_refresh_tutor_search"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE "tutor_profiles" SET "searchText" = '' WHERE "id" = OLD."B";
+    ELSE
+        UPDATE "tutor_profiles" SET "searchText" = '' WHERE "id" = NEW."B";
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tutor_subjects_tutor_search" AFTER INSERT OR DELETE ON "_TutorSubjects"
+    FOR EACH ROW EXECUTE FUNCTION "tutor_subjects_refresh_tutor_search"();
+
+-- Rebuild search documents from the new subjects
+UPDATE "tutor_profiles" SET "searchText" = '';
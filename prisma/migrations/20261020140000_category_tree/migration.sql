@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "categories_name_key";
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the current alphabetical order as the initial display order
+UPDATE "categories" c SET "position" = o."position"
+FROM (
+    SELECT "id", (ROW_NUMBER() OVER (ORDER BY "name") - 1)::int AS "position" FROM "categories"
+) o
+WHERE o."id" = c."id";
+
+-- CreateIndex
+CREATE INDEX "categories_parentId_position_idx" ON "categories"("parentId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_parentId_name_key" ON "categories"("parentId", "name");
+
+-- Top-level categories have a null parentId, which the index above treats as distinct
+CREATE UNIQUE INDEX "categories_root_name_key" ON "categories"("name") WHERE "parentId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('NOT_REQUIRED', 'PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'NOT_REQUIRED';
+
+-- Bookings charged before payments were captured separately
+UPDATE "bookings" b
+SET "paymentStatus" = 'PAID'
+WHERE EXISTS (
+    SELECT 1 FROM "ledger_transactions" lt
+    WHERE lt."bookingId" = b."id" AND lt."type" = 'CHARGE'
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_paymentStatus_idx" ON "bookings"("paymentStatus");
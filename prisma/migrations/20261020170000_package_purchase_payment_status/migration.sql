@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "package_purchases" ADD COLUMN "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'NOT_REQUIRED';
+
+-- Purchases charged before payments were captured separately
+UPDATE "package_purchases" pp
+SET "paymentStatus" = 'PAID'
+WHERE EXISTS (
+    SELECT 1 FROM "ledger_transactions" lt
+    WHERE lt."packagePurchaseId" = pp."id" AND lt."type" = 'PACKAGE_PURCHASE'
+);
+
+-- CreateIndex
+CREATE INDEX "package_purchases_paymentStatus_idx" ON "package_purchases"("paymentStatus");
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "ProviderOperationStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "ledger_transactions" ADD COLUMN "providerStatus" "ProviderOperationStatus",
+ADD COLUMN "chargeReference" TEXT;
+
+-- Refunds and payouts made before they were sent after commit
+UPDATE "ledger_transactions"
+SET "providerStatus" = 'SENT'
+WHERE "type" IN ('REFUND', 'PAYOUT');
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_providerStatus_idx" ON "ledger_transactions"("providerStatus");
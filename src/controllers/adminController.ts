@@ -1,6 +1,21 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, BookingStatus, LedgerAccount } from '@prisma/client';
 import { z } from 'zod';
+import { getReliabilityStats, resolveNoShowReport } from '../utils/attendance';
+import { getLateCancellationCounts } from '../utils/cancellationPolicy';
+import {
+  getAccountBalance,
+  getSettledTotals,
+  sendPendingProviderOperations
+} from '../utils/ledger';
+import { DEFAULT_CURRENCY } from '../utils/pricing';
+import { normalizePromoCode, RELEASED_BOOKING_STATUSES } from '../utils/promoCodes';
+import { DEFAULT_COMMISSION_RATE, isValidRegion, normalizeRegion } from '../utils/platformFees';
+import { getReviewTarget, validateReview } from '../utils/tutorApproval';
+import { isSerializationFailure } from '../utils/bookingConflicts';
+import { mergeCategories, validateCategoryMerge } from '../utils/categoryMerge';
+import { recordAuditLog } from '../utils/auditLog';
+import { invalidateCategoryStats } from '../utils/categoryStats';
 
 const prisma = new PrismaClient();
 
@@ -18,10 +33,149 @@ const getUsersQuerySchema = z.object({
 });
 
 const getBookingsQuerySchema = z.object({
-  status: z.enum(['CONFIRMED', 'COMPLETED', 'CANCELLED']).optional(),
+  status: z.nativeEnum(BookingStatus).optional(),
   search: z.string().optional()
 });
 
+const getNoShowsQuerySchema = z.object({
+  status: z.enum(['REPORTED', 'CONTESTED', 'UPHELD', 'DISMISSED']).optional()
+});
+
+const resolveNoShowSchema = z.object({
+  decision: z.enum(['uphold', 'dismiss'], {
+    errorMap: () => ({ message: 'Decision must be uphold or dismiss' })
+  })
+});
+
+const promoCodeFields = {
+  description: z.string().max(500, 'Description cannot exceed 500 characters').optional(),
+  maxRedemptions: z
+    .number()
+    .int('Usage limit must be a whole number')
+    .positive('Usage limit must be positive')
+    .nullable()
+    .optional(), // null = unlimited
+  maxRedemptionsPerUser: z
+    .number()
+    .int('Per-user limit must be a whole number')
+    .positive('Per-user limit must be positive')
+    .nullable()
+    .optional(),
+  expiresAt: z.string().datetime('Invalid expiry date format').nullable().optional(),
+  active: z.boolean().optional()
+};
+
+const createPromoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .regex(/^[A-Za-z0-9_-]{3,32}$/, 'Code must be 3-32 letters, digits, dashes or underscores'),
+    discountType: z.enum(['PERCENTAGE', 'FIXED_AMOUNT'], {
+      errorMap: () => ({ message: 'Discount type must be PERCENTAGE or FIXED_AMOUNT' })
+    }),
+    discountValue: z.number().positive('Discount must be positive'),
+    tutorId: z.string().uuid('Invalid tutor ID').optional(), // Omit for a code valid with any tutor
+    firstLessonOnly: z.boolean().optional(),
+    ...promoCodeFields
+  })
+  .refine((data) => data.discountType !== 'PERCENTAGE' || data.discountValue <= 100, {
+    message: 'Percentage discount cannot exceed 100',
+    path: ['discountValue']
+  });
+
+const updatePromoCodeSchema = z.object(promoCodeFields);
+
+const getPromoCodesQuerySchema = z.object({
+  active: z.enum(['true', 'false']).optional(),
+  tutorId: z.string().uuid('Invalid tutor ID').optional()
+});
+
+const commissionRateField = z
+  .number()
+  .min(0, 'Rate cannot be negative')
+  .max(1, 'Rate cannot exceed 1 (100%)');
+
+const newTutorDaysField = z
+  .number()
+  .int('New tutor period must be a whole number of days')
+  .positive('New tutor period must be positive');
+
+const createCommissionRuleSchema = z
+  .object({
+    scope: z.enum(['GLOBAL', 'CATEGORY', 'NEW_TUTOR'], {
+      errorMap: () => ({ message: 'Scope must be GLOBAL, CATEGORY or NEW_TUTOR' })
+    }),
+    rate: commissionRateField,
+    categoryId: z.string().uuid('Invalid category ID').optional(),
+    newTutorDays: newTutorDaysField.optional(),
+    description: z.string().max(500, 'Description cannot exceed 500 characters').optional(),
+    active: z.boolean().optional()
+  })
+  .refine((data) => (data.scope === 'CATEGORY') === (data.categoryId !== undefined), {
+    message: 'categoryId is required for CATEGORY rules and not allowed otherwise',
+    path: ['categoryId']
+  })
+  .refine((data) => (data.scope === 'NEW_TUTOR') === (data.newTutorDays !== undefined), {
+    message: 'newTutorDays is required for NEW_TUTOR rules and not allowed otherwise',
+    path: ['newTutorDays']
+  });
+
+const updateCommissionRuleSchema = z.object({
+  rate: commissionRateField.optional(),
+  newTutorDays: newTutorDaysField.optional(),
+  description: z.string().max(500, 'Description cannot exceed 500 characters').optional(),
+  active: z.boolean().optional()
+});
+
+const taxRateFields = {
+  name: z.string().min(1, 'Name is required').max(50, 'Name cannot exceed 50 characters'),
+  rate: z.number().min(0, 'Rate cannot be negative').max(1, 'Rate cannot exceed 1 (100%)'),
+  active: z.boolean().optional()
+};
+
+const createTaxRateSchema = z.object({
+  region: z
+    .string()
+    .transform(normalizeRegion)
+    .refine(isValidRegion, 'Region must be an ISO country code (e.g. GB or US-CA)'),
+  ...taxRateFields
+});
+
+const updateTaxRateSchema = z.object({
+  name: taxRateFields.name.optional(),
+  rate: taxRateFields.rate.optional(),
+  active: taxRateFields.active
+});
+
+const getTutorsQuerySchema = z.object({
+  status: z
+    .enum(['DRAFT', 'PENDING_REVIEW', 'APPROVED', 'REJECTED', 'SUSPENDED'])
+    .default('PENDING_REVIEW')
+});
+
+const mergeCategorySchema = z.object({
+  targetId: z.string().uuid('Invalid target category ID')
+});
+
+const getAuditLogsQuerySchema = z.object({
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  limit: z.coerce
+    .number()
+    .int('limit must be a whole number')
+    .min(1, 'limit must be at least 1')
+    .max(200, 'limit cannot exceed 200')
+    .default(50)
+});
+
+const reviewTutorSchema = z.object({
+  action: z.enum(['approve', 'reject', 'suspend', 'reinstate'], {
+    errorMap: () => ({ message: 'Action must be approve, reject, suspend or reinstate' })
+  }),
+  reason: z.string().trim().max(1000, 'Reason cannot exceed 1000 characters').optional()
+});
+
 /**
  * Get all users
  * GET /api/admin/users?role=&status=&search=
@@ -92,8 +246,21 @@ export const getAllUsers = async (
       }
     });
 
+    const userIds = users.map((user) => user.id);
+
+    // Attendance reliability from completed sessions and upheld no-shows,
+    // plus confirmed sessions each user cancelled after the free cancellation window
+    const [reliability, lateCancellations] = await Promise.all([
+      getReliabilityStats(prisma, userIds),
+      getLateCancellationCounts(prisma, userIds)
+    ]);
+
     res.status(200).json({
-      users,
+      users: users.map((user) => ({
+        ...user,
+        reliability: reliability.get(user.id),
+        lateCancellations: lateCancellations.get(user.id) || 0
+      })),
       count: users.length
     });
   } catch (error) {
@@ -165,6 +332,11 @@ export const updateUserStatus = async (
       }
     });
 
+    // Banned tutors drop out of the category stats
+    if (updatedUser.role === 'TUTOR') {
+      invalidateCategoryStats();
+    }
+
     res.status(200).json({
       message: `User ${status === 'BANNED' ? 'banned' : 'unbanned'} successfully`,
       user: updatedUser
@@ -257,7 +429,8 @@ export const getAllBookings = async (
             rating: true,
             comment: true
           }
-        }
+        },
+        noShowReport: true
       },
       orderBy: {
         dateTime: 'desc'
@@ -324,27 +497,29 @@ export const getStats = async (req: Request, res: Response): Promise<void> => {
     // Get total categories
     const totalCategories = await prisma.category.count();
 
-    // Calculate total revenue (sum of completed booking durations * hourly rates)
-    const completedBookings = await prisma.booking.findMany({
+    // Money settled from escrow (completed sessions, no-shows and late cancellation fees)
+    // split into the platform's, the tax authorities' and the tutors' shares, as the ledger
+    // recorded them
+    const settled = await getSettledTotals(prisma);
+
+    const gmv = settled.gross;
+    const platformRevenue = settled.platformRevenue;
+    const taxCollected = settled.taxCollected;
+    const tutorPayouts = settled.tutorEarnings;
+
+    // Promo code discounts given on completed bookings (not included in revenue)
+    const discounts = await prisma.booking.aggregate({
       where: { status: 'COMPLETED' },
-      include: {
-        tutor: {
-          select: {
-            tutorProfile: {
-              select: {
-                hourlyRate: true
-              }
-            }
-          }
-        }
+      _sum: {
+        discountAmount: true
       }
     });
 
-    const totalRevenue = completedBookings.reduce((sum, booking) => {
-      const hourlyRate = booking.tutor.tutorProfile?.hourlyRate || 0;
-      const hours = booking.duration / 60;
-      return sum + hourlyRate * hours;
-    }, 0);
+    const totalDiscounts = discounts._sum.discountAmount || 0;
+    // Redemptions released by a rejected, cancelled or expired booking are not counted
+    const promoRedemptions = await prisma.promoRedemption.count({
+      where: { booking: { status: { notIn: RELEASED_BOOKING_STATUSES } } }
+    });
 
     // Get user counts by role for easy access
     const roleStats = userStats.reduce(
@@ -380,13 +555,21 @@ export const getStats = async (req: Request, res: Response): Promise<void> => {
       totalTutors,
       totalStudents: roleStats.student || 0,
       totalBookings,
-      totalRevenue,
+      totalRevenue: gmv, // Same as gmv, kept for existing clients
+      gmv,
+      platformRevenue,
+      taxCollected,
+      tutorPayouts,
+      totalDiscounts,
+      promoRedemptions,
       activeTutors,
       bookingsByStatus: {
         pending: statusStats.pending || 0,
         confirmed: statusStats.confirmed || 0,
         completed: statusStats.completed || 0,
-        cancelled: statusStats.cancelled || 0
+        cancelled: statusStats.cancelled || 0,
+        expired: statusStats.expired || 0,
+        noShow: statusStats.no_show || 0
       }
     });
   } catch (error) {
@@ -397,3 +580,1001 @@ export const getStats = async (req: Request, res: Response): Promise<void> => {
     });
   }
 };
+
+/**
+ * Get no-show reports
+ * GET /api/admin/no-shows?status=
+ * Requires authentication and ADMIN role
+ */
+export const getNoShowReports = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate query parameters
+    const { status } = getNoShowsQuerySchema.parse(req.query);
+
+    const reports = await prisma.noShowReport.findMany({
+      where: status ? { status } : {},
+      include: {
+        booking: {
+          select: {
+            id: true,
+            dateTime: true,
+            duration: true,
+            status: true,
+            subject: true
+          }
+        },
+        reporter: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true
+          }
+        },
+        absentee: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    res.status(200).json({
+      reports,
+      count: reports.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get no-show reports error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch no-show reports'
+    });
+  }
+};
+
+/**
+ * Decide a no-show report
+ * PATCH /api/admin/no-shows/:id
+ * Requires authentication and ADMIN role
+ */
+export const resolveNoShow = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const adminId = req.user.userId;
+
+    // Validate request body
+    const { decision } = resolveNoShowSchema.parse(req.body);
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const report = await tx.noShowReport.findUnique({
+          where: { id },
+          include: { booking: true }
+        });
+
+        if (!report) {
+          return { report: null, error: 'not_found' as const };
+        }
+
+        if (report.status !== 'REPORTED' && report.status !== 'CONTESTED') {
+          return { report, error: 'resolved' as const };
+        }
+
+        const { booking, ...reportFields } = report;
+        const resolved = await resolveNoShowReport(tx, reportFields, booking, decision, adminId);
+
+        return { report: resolved, error: null };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    // Refunds from upholding a tutor no-show are sent once the decision is saved
+    if (!result.error && result.report) {
+      await sendPendingProviderOperations(prisma, { bookingId: result.report.bookingId });
+    }
+
+    if (result.error === 'not_found') {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No-show report not found'
+      });
+      return;
+    }
+
+    if (result.error === 'resolved') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `No-show report has already been ${result.report?.status.toLowerCase()}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: `No-show report ${decision === 'uphold' ? 'upheld' : 'dismissed'}`,
+      report: result.report
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Resolve no-show error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to resolve no-show report'
+    });
+  }
+};
+
+/**
+ * Get the balance of every ledger account (trial balance)
+ * GET /api/admin/ledger
+ * Requires authentication and ADMIN role
+ */
+export const getLedgerSummary = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const accounts = Object.values(LedgerAccount);
+    const balances = await Promise.all(
+      accounts.map((account) => getAccountBalance(prisma, account))
+    );
+
+    const totals = await prisma.ledgerEntry.groupBy({
+      by: ['direction'],
+      _sum: { amount: true }
+    });
+    const debits = totals.find((row) => row.direction === 'DEBIT')?._sum.amount || 0;
+    const credits = totals.find((row) => row.direction === 'CREDIT')?._sum.amount || 0;
+
+    res.status(200).json({
+      currency: DEFAULT_CURRENCY,
+      accounts: accounts.reduce(
+        (acc, account, index) => {
+          acc[account] = balances[index];
+          return acc;
+        },
+        {} as Record<LedgerAccount, number>
+      ),
+      totalDebits: debits,
+      totalCredits: credits,
+      balanced: Math.abs(debits - credits) < 0.005
+    });
+  } catch (error) {
+    console.error('Get ledger summary error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch ledger summary'
+    });
+  }
+};
+
+/**
+ * Get promo codes with their usage
+ * GET /api/admin/promo-codes?active=&tutorId=
+ * Requires authentication and ADMIN role
+ */
+export const getPromoCodes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate query parameters
+    const { active, tutorId } = getPromoCodesQuerySchema.parse(req.query);
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where: {
+        ...(active && { active: active === 'true' }),
+        ...(tutorId && { tutorId })
+      },
+      include: {
+        tutor: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        _count: {
+          select: {
+            redemptions: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    // Total discount given per code
+    const discounts = await prisma.promoRedemption.groupBy({
+      by: ['promoCodeId'],
+      where: { promoCodeId: { in: promoCodes.map((promo) => promo.id) } },
+      _sum: { discount: true }
+    });
+
+    res.status(200).json({
+      promoCodes: promoCodes.map(({ _count, ...promo }) => ({
+        ...promo,
+        redemptions: _count.redemptions,
+        totalDiscount:
+          discounts.find((row) => row.promoCodeId === promo.id)?._sum.discount || 0
+      })),
+      count: promoCodes.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get promo codes error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch promo codes'
+    });
+  }
+};
+
+/**
+ * Create a promo code
+ * POST /api/admin/promo-codes
+ * Requires authentication and ADMIN role
+ */
+export const createPromoCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate request body
+    const validatedData = createPromoCodeSchema.parse(req.body);
+
+    if (validatedData.tutorId) {
+      const tutor = await prisma.user.findUnique({
+        where: { id: validatedData.tutorId }
+      });
+
+      if (!tutor || tutor.role !== 'TUTOR') {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Tutor not found'
+        });
+        return;
+      }
+    }
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...validatedData,
+        code: normalizePromoCode(validatedData.code),
+        expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null
+      }
+    });
+
+    res.status(201).json({
+      message: 'Promo code created',
+      promoCode
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A promo code with this code already exists'
+      });
+      return;
+    }
+
+    console.error('Create promo code error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create promo code'
+    });
+  }
+};
+
+/**
+ * Update a promo code's limits, expiry or active flag
+ * PATCH /api/admin/promo-codes/:id
+ * Requires authentication and ADMIN role
+ */
+export const updatePromoCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { expiresAt, ...validatedData } = updatePromoCodeSchema.parse(req.body);
+
+    const existing = await prisma.promoCode.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Promo code not found'
+      });
+      return;
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        ...(expiresAt !== undefined && {
+          expiresAt: expiresAt ? new Date(expiresAt) : null
+        })
+      }
+    });
+
+    res.status(200).json({
+      message: 'Promo code updated',
+      promoCode
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Update promo code error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update promo code'
+    });
+  }
+};
+
+/**
+ * Get commission rules and the fallback rate used when no GLOBAL rule is active
+ * GET /api/admin/commission-rules
+ * Requires authentication and ADMIN role
+ */
+export const getCommissionRules = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const rules = await prisma.commissionRule.findMany({
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [{ scope: 'asc' }, { createdAt: 'desc' }]
+    });
+
+    res.status(200).json({
+      defaultRate: DEFAULT_COMMISSION_RATE,
+      rules,
+      count: rules.length
+    });
+  } catch (error) {
+    console.error('Get commission rules error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch commission rules'
+    });
+  }
+};
+
+/**
+ * Create a commission rule (applies to bookings made from now on)
+ * POST /api/admin/commission-rules
+ * Requires authentication and ADMIN role
+ */
+export const createCommissionRule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate request body
+    const validatedData = createCommissionRuleSchema.parse(req.body);
+
+    if (validatedData.categoryId) {
+      const category = await prisma.category.findUnique({
+        where: { id: validatedData.categoryId }
+      });
+
+      if (!category) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Category not found'
+        });
+        return;
+      }
+    }
+
+    const rule = await prisma.commissionRule.create({
+      data: validatedData
+    });
+
+    res.status(201).json({
+      message: 'Commission rule created',
+      rule
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Create commission rule error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create commission rule'
+    });
+  }
+};
+
+/**
+ * Update a commission rule's rate or deactivate it (existing bookings keep their rate)
+ * PATCH /api/admin/commission-rules/:id
+ * Requires authentication and ADMIN role
+ */
+export const updateCommissionRule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updateCommissionRuleSchema.parse(req.body);
+
+    const existing = await prisma.commissionRule.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Commission rule not found'
+      });
+      return;
+    }
+
+    if (validatedData.newTutorDays !== undefined && existing.scope !== 'NEW_TUTOR') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'newTutorDays only applies to NEW_TUTOR rules'
+      });
+      return;
+    }
+
+    const rule = await prisma.commissionRule.update({
+      where: { id },
+      data: validatedData
+    });
+
+    res.status(200).json({
+      message: 'Commission rule updated',
+      rule
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Update commission rule error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update commission rule'
+    });
+  }
+};
+
+/**
+ * Get tax rates by region
+ * GET /api/admin/tax-rates
+ * Requires authentication and ADMIN role
+ */
+export const getTaxRates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const taxRates = await prisma.taxRate.findMany({
+      orderBy: {
+        region: 'asc'
+      }
+    });
+
+    res.status(200).json({
+      taxRates,
+      count: taxRates.length
+    });
+  } catch (error) {
+    console.error('Get tax rates error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch tax rates'
+    });
+  }
+};
+
+/**
+ * Create the tax rate of a region (applies to bookings made from now on)
+ * POST /api/admin/tax-rates
+ * Requires authentication and ADMIN role
+ */
+export const createTaxRate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate request body
+    const validatedData = createTaxRateSchema.parse(req.body);
+
+    const taxRate = await prisma.taxRate.create({
+      data: validatedData
+    });
+
+    res.status(201).json({
+      message: 'Tax rate created',
+      taxRate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A tax rate for this region already exists'
+      });
+      return;
+    }
+
+    console.error('Create tax rate error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create tax rate'
+    });
+  }
+};
+
+/**
+ * Update or deactivate a region's tax rate (existing bookings keep their rate)
+ * PATCH /api/admin/tax-rates/:id
+ * Requires authentication and ADMIN role
+ */
+export const updateTaxRate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updateTaxRateSchema.parse(req.body);
+
+    const existing = await prisma.taxRate.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Tax rate not found'
+      });
+      return;
+    }
+
+    const taxRate = await prisma.taxRate.update({
+      where: { id },
+      data: validatedData
+    });
+
+    res.status(200).json({
+      message: 'Tax rate updated',
+      taxRate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Update tax rate error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update tax rate'
+    });
+  }
+};
+
+/**
+ * Get tutor profiles by approval status; the review queue lists the oldest submissions first
+ * GET /api/admin/tutors?status=
+ * Requires authentication and ADMIN role
+ */
+export const getTutorProfiles = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate query parameters
+    const { status } = getTutorsQuerySchema.parse(req.query);
+
+    const profiles = await prisma.tutorProfile.findMany({
+      where: { status },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            status: true,
+            createdAt: true
+          }
+        },
+        categories: {
+          select: {
+            id: true,
+            name: true,
+            slug: true
+          }
+        }
+      },
+      orderBy: [{ submittedAt: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    res.status(200).json({
+      tutors: profiles,
+      count: profiles.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get tutor profiles error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch tutor profiles'
+    });
+  }
+};
+
+/**
+ * Approve, reject, suspend or reinstate a tutor's profile
+ * PATCH /api/admin/tutors/:id/review
+ * Requires authentication and ADMIN role
+ */
+export const reviewTutorProfile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { action, reason } = reviewTutorSchema.parse(req.body);
+
+    const profile = await prisma.tutorProfile.findUnique({
+      where: { userId: id }
+    });
+
+    if (!profile) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Tutor profile not found'
+      });
+      return;
+    }
+
+    const reviewError = validateReview(profile.status, action, reason || undefined);
+    if (reviewError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: reviewError
+      });
+      return;
+    }
+
+    // Only apply the decision if nobody changed the status in the meantime
+    const { count } = await prisma.tutorProfile.updateMany({
+      where: { id: profile.id, status: profile.status },
+      data: {
+        status: getReviewTarget(action),
+        statusReason: reason || null,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Tutor profile status changed, please retry'
+      });
+      return;
+    }
+
+    const updatedProfile = await prisma.tutorProfile.findUniqueOrThrow({
+      where: { id: profile.id }
+    });
+
+    invalidateCategoryStats();
+
+    res.status(200).json({
+      message: `Tutor profile ${updatedProfile.status.toLowerCase()}`,
+      profile: updatedProfile
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Review tutor profile error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to review tutor profile'
+    });
+  }
+};
+
+/**
+ * Merge a duplicate category into another in one transaction: tutors, subjects,
+ * subcategories and commission rules move to the target, the source is deleted and its
+ * slug redirects to the target. The merge is recorded in the audit trail.
+ * POST /api/admin/categories/:id/merge
+ * Requires authentication and ADMIN role
+ */
+export const mergeCategory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const actorId = req.user.userId;
+
+    // Validate request body
+    const { targetId } = mergeCategorySchema.parse(req.body);
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const [source, target] = await Promise.all([
+          tx.category.findUnique({ where: { id } }),
+          tx.category.findUnique({ where: { id: targetId } })
+        ]);
+
+        if (!source || !target) {
+          return {
+            mergeError: { statusCode: 404, error: 'Not Found', message: 'Category not found' },
+            category: null,
+            moved: null
+          };
+        }
+
+        const mergeError = await validateCategoryMerge(tx, source, target);
+        if (mergeError) {
+          return {
+            mergeError: { statusCode: 400, error: 'Bad Request', message: mergeError },
+            category: null,
+            moved: null
+          };
+        }
+
+        const moved = await mergeCategories(tx, source, target);
+
+        await recordAuditLog(tx, {
+          actorId,
+          action: 'category.merge',
+          entityType: 'category',
+          entityId: source.id,
+          metadata: {
+            source: {
+              id: source.id,
+              name: source.name,
+              slug: source.slug,
+              parentId: source.parentId
+            },
+            target: {
+              id: target.id,
+              name: target.name,
+              slug: target.slug
+            },
+            moved: { ...moved }
+          }
+        });
+
+        const category = await tx.category.findUniqueOrThrow({
+          where: { id: target.id },
+          include: {
+            _count: {
+              select: { tutors: true, children: true, subjects: true }
+            }
+          }
+        });
+
+        return { mergeError: null, category, moved };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (result.mergeError) {
+      res.status(result.mergeError.statusCode).json({
+        error: result.mergeError.error,
+        message: result.mergeError.message
+      });
+      return;
+    }
+
+    invalidateCategoryStats();
+
+    res.status(200).json({
+      message: 'Categories merged successfully',
+      category: result.category,
+      moved: result.moved
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The categories changed while they were being merged. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Merge category error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to merge categories'
+    });
+  }
+};
+
+/**
+ * Get the admin audit trail, newest first
+ * GET /api/admin/audit-logs?action=&entityType=&entityId=&limit=
+ * Requires authentication and ADMIN role
+ */
+export const getAuditLogs = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate query parameters
+    const { action, entityType, entityId, limit } = getAuditLogsQuerySchema.parse(req.query);
+
+    const logs = await prisma.auditLog.findMany({
+      where: { action, entityType, entityId },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      },
+      take: limit
+    });
+
+    res.status(200).json({
+      logs,
+      count: logs.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get audit logs error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch audit logs'
+    });
+  }
+};
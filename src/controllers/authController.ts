@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { hashPassword, comparePassword } from '../utils/password';
 import { generateToken } from '../utils/jwt';
+import { isValidRegion, normalizeRegion } from '../utils/platformFees';
 
 const prisma = new PrismaClient();
 
@@ -13,7 +14,12 @@ const registerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   role: z.enum(['STUDENT', 'TUTOR'], {
     errorMap: () => ({ message: 'Role must be either STUDENT or TUTOR' })
-  })
+  }),
+  region: z
+    .string()
+    .transform(normalizeRegion)
+    .refine(isValidRegion, 'Region must be an ISO country code (e.g. GB or US-CA)')
+    .optional() // Decides the tax on bookings
 });
 
 const loginSchema = z.object({
@@ -52,7 +58,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         email: validatedData.email,
         password: hashedPassword,
         name: validatedData.name,
-        role: validatedData.role
+        role: validatedData.role,
+        region: validatedData.region
       },
       select: {
         id: true,
@@ -60,6 +67,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         name: true,
         role: true,
         status: true,
+        region: true,
         createdAt: true
       }
     });
@@ -199,16 +207,21 @@ export const getCurrentUser = async (
         name: true,
         role: true,
         status: true,
+        region: true,
         createdAt: true,
         tutorProfile: {
           select: {
             id: true,
             bio: true,
             hourlyRate: true,
-            subjects: true,
+            subjects: {
+              select: { id: true, name: true, slug: true, status: true }
+            },
             experience: true,
             rating: true,
-            reviewCount: true
+            reviewCount: true,
+            status: true,
+            statusReason: true
           }
         }
       }
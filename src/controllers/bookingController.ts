@@ -1,6 +1,68 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, Booking, BookingStatus } from '@prisma/client';
 import { z } from 'zod';
+import {
+  MAX_BOOKING_DURATION,
+  findBookingConflicts,
+  isSerializationFailure,
+  getBookingEnd,
+  BookingConflict
+} from '../utils/bookingConflicts';
+import {
+  normalizeAvailability,
+  isValidTimezone,
+  getWeeklyOccurrences,
+  getZonedParts,
+  zonedTimeToUtc,
+  formatDateOnly
+} from '../utils/availability';
+import {
+  availabilityIncludeForRange,
+  getBookingRuleViolation
+} from '../utils/bookingRules';
+import {
+  getBookingActor,
+  getPermissionError,
+  validateTransition,
+  transitionBooking,
+  recordBookingEvent
+} from '../utils/bookingStateMachine';
+import {
+  NO_SHOW_REPORT_WINDOW_HOURS,
+  NO_SHOW_CONTEST_WINDOW_HOURS
+} from '../utils/attendance';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  CancellationOutcome,
+  evaluateCancellation,
+  getCancellationData
+} from '../utils/cancellationPolicy';
+import { getPriceSnapshot, roundMoney } from '../utils/pricing';
+import {
+  adjustBookingCharge,
+  redeemPackageCredit,
+  sendPendingProviderOperations
+} from '../utils/ledger';
+import {
+  chargeBookingDifference,
+  payForBookings,
+  voidBookingCharge
+} from '../utils/bookingPayments';
+import { consumeCredit, getCreditPriceSnapshot } from '../utils/lessonCredits';
+import { evaluatePromoCode } from '../utils/promoCodes';
+import { getFeeRates, getFeeSnapshot } from '../utils/platformFees';
+import { PaymentProviderError } from '../utils/paymentProvider';
+import { getSpendingByMonth } from '../utils/earnings';
+import {
+  INVOICEABLE_STATUSES,
+  formatInvoiceNumber,
+  getOrIssueInvoice,
+  renderInvoiceHtml,
+  renderInvoicePdf
+} from '../utils/invoices';
+import { PUBLIC_TUTOR_STATUS } from '../utils/tutorApproval';
+import { findOfferedSubject, offeredSubjectsSelect } from '../utils/subjects';
+import { readNumberEnv } from '../utils/env';
 
 const prisma = new PrismaClient();
 
@@ -8,11 +70,89 @@ const prisma = new PrismaClient();
 const createBookingSchema = z.object({
   tutorId: z.string().uuid('Invalid tutor ID'),
   dateTime: z.string().datetime('Invalid date time format'),
-  duration: z.number().positive('Duration must be positive').default(60),
-  subject: z.string().optional(),
+  duration: z
+    .number()
+    .positive('Duration must be positive')
+    .max(MAX_BOOKING_DURATION, `Duration cannot exceed ${MAX_BOOKING_DURATION} minutes`)
+    .default(60),
+  subject: z.string().optional(), // Name or slug of a subject the tutor offers
+  notes: z.string().min(1, 'Message is required').optional(),
+  useCredit: z.boolean().default(true), // Pay with a lesson package credit when one is available
+  promoCode: z.string().min(1, 'Promo code cannot be empty').optional() // Paying by card only
+});
+
+// Maximum number of occurrences in one recurring series
+const MAX_SERIES_OCCURRENCES = 26;
+
+// Validation schema for creating a recurring booking series
+const createBookingSeriesSchema = z.object({
+  tutorId: z.string().uuid('Invalid tutor ID'),
+  dateTime: z.string().datetime('Invalid date time format'), // First occurrence
+  duration: z
+    .number()
+    .positive('Duration must be positive')
+    .max(MAX_BOOKING_DURATION, `Duration cannot exceed ${MAX_BOOKING_DURATION} minutes`)
+    .default(60),
+  occurrences: z
+    .number()
+    .int('Occurrences must be a whole number')
+    .min(2, 'A series needs at least 2 occurrences')
+    .max(MAX_SERIES_OCCURRENCES, `A series cannot exceed ${MAX_SERIES_OCCURRENCES} occurrences`),
+  intervalWeeks: z
+    .number()
+    .int('Interval must be a whole number of weeks')
+    .min(1, 'Interval must be at least 1 week')
+    .max(4, 'Interval cannot exceed 4 weeks')
+    .default(1),
+  // Timezone the lesson time is kept in across DST changes (defaults to the tutor's)
+  timezone: z
+    .string()
+    .refine(isValidTimezone, 'Timezone must be a valid IANA timezone (e.g. Europe/London)')
+    .optional(),
+  skipUnavailable: z.boolean().default(false), // Create the free occurrences and skip the rest
+  subject: z.string().optional(), // Name or slug of a subject the tutor offers
   notes: z.string().min(1, 'Message is required').optional()
 });
 
+// Validation schema for updating all upcoming occurrences of a series
+const updateBookingSeriesStatusSchema = z.object({
+  action: z.enum(['approve', 'reject', 'cancel'], {
+    errorMap: () => ({ message: 'Action must be approve, reject, or cancel' })
+  }),
+  reason: z.string().optional() // Optional reason for rejection/cancellation
+});
+
+// How long a reschedule proposal stays open if not answered
+const RESCHEDULE_PROPOSAL_TTL_HOURS = readNumberEnv('RESCHEDULE_PROPOSAL_TTL_HOURS', 48, {
+  min: 1
+});
+
+// Validation schema for proposing a new time for a booking
+const proposeRescheduleSchema = z.object({
+  dateTime: z.string().datetime('Invalid date time format'),
+  duration: z
+    .number()
+    .positive('Duration must be positive')
+    .max(MAX_BOOKING_DURATION, `Duration cannot exceed ${MAX_BOOKING_DURATION} minutes`)
+    .optional(), // Defaults to the booking's current duration
+  reason: z.string().optional()
+});
+
+// Validation schema for answering a reschedule proposal
+const respondRescheduleSchema = z.object({
+  action: z.enum(['accept', 'decline', 'withdraw'], {
+    errorMap: () => ({ message: 'Action must be accept, decline, or withdraw' })
+  })
+});
+
+// Validation schema for attendance actions
+const updateAttendanceSchema = z.object({
+  action: z.enum(['report_no_show', 'contest'], {
+    errorMap: () => ({ message: 'Action must be report_no_show or contest' })
+  }),
+  reason: z.string().optional()
+});
+
 // Validation schema for updating booking status
 const updateBookingStatusSchema = z.object({
   action: z.enum(['approve', 'reject', 'cancel', 'complete'], {
@@ -21,6 +161,82 @@ const updateBookingStatusSchema = z.object({
   reason: z.string().optional() // Optional reason for rejection/cancellation
 });
 
+// Validation schema for the student summary query
+const getStudentSummaryQuerySchema = z.object({
+  months: z.coerce
+    .number()
+    .int('Months must be a whole number')
+    .min(1, 'Months must be at least 1')
+    .max(36, 'Months cannot exceed 36')
+    .default(12),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, 'Timezone must be a valid IANA timezone (e.g. Europe/London)')
+    .default('UTC')
+});
+
+// Number of upcoming sessions and pending reviews listed in the student summary
+const SUMMARY_LIST_LIMIT = 5;
+
+// Validation schema for the invoice query
+const getInvoiceQuerySchema = z.object({
+  format: z
+    .enum(['html', 'pdf'], {
+      errorMap: () => ({ message: 'Format must be html or pdf' })
+    })
+    .default('html')
+});
+
+/**
+ * Check a time against a tutor's booking rules and availability
+ * @param tutorId - Tutor's user ID
+ * @param dateTime - Session start
+ * @param duration - Duration in minutes
+ * @returns Rule violation message (null if bookable) and the tutor's buffer time
+ */
+const checkTutorRules = async (
+  tutorId: string,
+  dateTime: Date,
+  duration: number
+): Promise<{ violation: string | null; bufferMinutes: number }> => {
+  const tutorProfile = await prisma.tutorProfile.findUnique({
+    where: { userId: tutorId },
+    include: availabilityIncludeForRange(dateTime, getBookingEnd(dateTime, duration))
+  });
+
+  if (!tutorProfile) {
+    return { violation: 'Tutor not found', bufferMinutes: 0 };
+  }
+
+  const violation = getBookingRuleViolation(
+    tutorProfile,
+    normalizeAvailability(
+      tutorProfile.timezone,
+      tutorProfile.availabilityRules,
+      tutorProfile.availabilityOverrides
+    ),
+    dateTime,
+    duration
+  );
+
+  return { violation, bufferMinutes: tutorProfile.bufferMinutes };
+};
+
+/**
+ * Mark a booking's unanswered reschedule proposals as expired once their deadline passes
+ * @param bookingId - Booking ID
+ */
+const expireStaleProposals = async (bookingId: string): Promise<void> => {
+  await prisma.rescheduleProposal.updateMany({
+    where: {
+      bookingId,
+      status: 'PENDING',
+      expiresAt: { lte: new Date() }
+    },
+    data: { status: 'EXPIRED' }
+  });
+};
+
 /**
  * Create a new booking
  * POST /api/bookings
@@ -42,10 +258,20 @@ export const createBooking = async (
     // Validate request body
     const validatedData = createBookingSchema.parse(req.body);
 
+    const dateTime = new Date(validatedData.dateTime);
+    const studentId = req.user.userId;
+
     // Check if tutor exists and is active
     const tutor = await prisma.user.findUnique({
       where: { id: validatedData.tutorId },
-      include: { tutorProfile: true }
+      include: {
+        tutorProfile: {
+          include: availabilityIncludeForRange(
+            dateTime,
+            getBookingEnd(dateTime, validatedData.duration)
+          )
+        }
+      }
     });
 
     if (!tutor || tutor.role !== 'TUTOR' || !tutor.tutorProfile) {
@@ -56,7 +282,7 @@ export const createBooking = async (
       return;
     }
 
-    if (tutor.status === 'BANNED') {
+    if (tutor.status === 'BANNED' || tutor.tutorProfile.status !== PUBLIC_TUTOR_STATUS) {
       res.status(400).json({
         error: 'Bad Request',
         message: 'This tutor is not available'
@@ -64,43 +290,180 @@ export const createBooking = async (
       return;
     }
 
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        studentId: req.user.userId,
-        tutorId: validatedData.tutorId,
-        dateTime: new Date(validatedData.dateTime),
-        duration: validatedData.duration,
-        subject: validatedData.subject,
-        notes: validatedData.notes
-      },
-      include: {
-        student: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        tutor: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            tutorProfile: {
+    const { tutorProfile } = tutor;
+
+    // The subject must be one the tutor offers
+    const subject = validatedData.subject
+      ? await findOfferedSubject(prisma, tutorProfile.id, validatedData.subject)
+      : null;
+
+    if (validatedData.subject && !subject) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'This tutor does not teach this subject'
+      });
+      return;
+    }
+
+    // Check notice period, advance window and availability
+    const ruleViolation = getBookingRuleViolation(
+      tutorProfile,
+      normalizeAvailability(
+        tutorProfile.timezone,
+        tutorProfile.availabilityRules,
+        tutorProfile.availabilityOverrides
+      ),
+      dateTime,
+      validatedData.duration
+    );
+
+    if (ruleViolation) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: ruleViolation
+      });
+      return;
+    }
+
+    // Check for overlapping bookings and create in one serializable transaction
+    // so that concurrent requests for the same slot cannot both succeed
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const conflicts = await findBookingConflicts(tx, {
+          tutorId: validatedData.tutorId,
+          studentId,
+          dateTime,
+          duration: validatedData.duration,
+          bufferMinutes: tutorProfile.bufferMinutes
+        });
+
+        if (conflicts.length > 0) {
+          return { conflicts, promoError: null, booking: null };
+        }
+
+        const listPrice = getPriceSnapshot(tutorProfile.hourlyRate, validatedData.duration);
+
+        // Promo codes apply to card payments, so they take precedence over package credits
+        const promotion = validatedData.promoCode
+          ? await evaluatePromoCode(tx, validatedData.promoCode, {
+              studentId,
+              tutorId: validatedData.tutorId,
+              price: listPrice.totalPrice
+            })
+          : null;
+
+        if (promotion?.error) {
+          return { conflicts, promoError: promotion.error, booking: null };
+        }
+
+        // Otherwise use a package credit bought from this tutor for this lesson length, if any
+        const purchase =
+          validatedData.useCredit && !promotion
+            ? await consumeCredit(tx, studentId, validatedData.tutorId, validatedData.duration)
+            : null;
+        const discount = promotion?.discount || 0;
+        const price = purchase
+          ? getCreditPriceSnapshot(purchase)
+          : getPriceSnapshot(
+              tutorProfile.hourlyRate,
+              validatedData.duration,
+              listPrice.currency,
+              discount
+            );
+        const feeRates = await getFeeRates(tx, validatedData.tutorId, studentId);
+
+        const booking = await tx.booking.create({
+          data: {
+            studentId,
+            tutorId: validatedData.tutorId,
+            dateTime,
+            duration: validatedData.duration,
+            ...price,
+            ...getFeeSnapshot(price.totalPrice, feeRates),
+            packagePurchaseId: purchase?.id,
+            discountAmount: discount,
+            // Card payments are charged once the booking is committed
+            paymentStatus: !purchase && price.totalPrice > 0 ? 'PENDING' : 'NOT_REQUIRED',
+            subject: subject?.name,
+            subjectId: subject?.id,
+            notes: validatedData.notes
+          },
+          include: {
+            student: {
               select: {
-                hourlyRate: true,
-                subjects: true
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            tutor: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                tutorProfile: {
+                  select: {
+                    hourlyRate: true,
+                    subjects: offeredSubjectsSelect()
+                  }
+                }
               }
             }
           }
+        });
+
+        await recordBookingEvent(tx, {
+          bookingId: booking.id,
+          actorId: studentId,
+          action: 'create',
+          fromStatus: null,
+          toStatus: booking.status
+        });
+
+        if (promotion?.promo) {
+          await tx.promoRedemption.create({
+            data: {
+              promoCodeId: promotion.promo.id,
+              bookingId: booking.id,
+              studentId,
+              discount
+            }
+          });
         }
-      }
-    });
+
+        // The student pays upfront (or with a credit); the money stays in escrow until the session is settled
+        if (purchase) {
+          await redeemPackageCredit(tx, booking);
+        }
+
+        return { conflicts, promoError: null, booking };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (result.promoError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: result.promoError
+      });
+      return;
+    }
+
+    if (!result.booking) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The requested time overlaps with existing bookings',
+        conflicts: result.conflicts
+      });
+      return;
+    }
+
+    // Charge the card outside the transaction so an aborted transaction never leaves a payment
+    const [paymentStatus] = await payForBookings(prisma, [result.booking.id]);
 
     res.status(201).json({
       message: 'Booking request sent! Awaiting tutor approval.',
-      booking
+      booking: { ...result.booking, paymentStatus }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -112,6 +475,22 @@ export const createBooking = async (
       return;
     }
 
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Another booking for this time slot is being processed. Please try again.'
+      });
+      return;
+    }
+
+    if (error instanceof PaymentProviderError) {
+      res.status(402).json({
+        error: 'Payment Required',
+        message: `Payment failed: ${error.message}`
+      });
+      return;
+    }
+
     console.error('Create booking error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
@@ -138,7 +517,7 @@ export const getBookings = async (
       return;
     }
 
-    const { status } = req.query;
+    const { status, seriesId } = req.query;
 
     // Build filter based on user role
     const where: any = {};
@@ -156,6 +535,10 @@ export const getBookings = async (
       where.status = String(status).toUpperCase();
     }
 
+    if (seriesId) {
+      where.seriesId = String(seriesId);
+    }
+
     const bookings = await prisma.booking.findMany({
       where,
       include: {
@@ -174,7 +557,7 @@ export const getBookings = async (
             tutorProfile: {
               select: {
                 hourlyRate: true,
-                subjects: true
+                subjects: offeredSubjectsSelect()
               }
             }
           }
@@ -185,6 +568,19 @@ export const getBookings = async (
             rating: true,
             comment: true
           }
+        },
+        series: {
+          select: {
+            id: true,
+            occurrences: true,
+            intervalWeeks: true
+          }
+        },
+        rescheduleProposals: {
+          where: {
+            status: 'PENDING',
+            expiresAt: { gt: new Date() }
+          }
         }
       },
       orderBy: {
@@ -205,6 +601,158 @@ export const getBookings = async (
   }
 };
 
+/**
+ * Get a student's learning summary: hours per subject and tutor, upcoming sessions,
+ * lessons waiting for a review and monthly spending
+ * GET /api/bookings/summary
+ * Requires authentication and STUDENT role
+ */
+export const getStudentSummary = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    // Validate query parameters
+    const { months, timezone } = getStudentSummaryQuerySchema.parse(req.query);
+    const studentId = req.user.userId;
+    const now = new Date();
+
+    // Spending starts on the first day of the oldest month requested
+    const [year, month] = getZonedParts(now, timezone).date.split('-').map(Number);
+    const firstMonth = new Date(Date.UTC(year, month - months, 1));
+    const spendingFrom = zonedTimeToUtc(formatDateOnly(firstMonth), '00:00', timezone);
+
+    const completed: Prisma.BookingWhereInput = { studentId, status: 'COMPLETED' };
+    const upcoming: Prisma.BookingWhereInput = {
+      studentId,
+      status: { in: ['PENDING', 'CONFIRMED'] },
+      dateTime: { gte: now }
+    };
+    const pendingReview: Prisma.BookingWhereInput = { ...completed, review: { is: null } };
+    const sessionSelect = {
+      id: true,
+      dateTime: true,
+      duration: true,
+      subject: true,
+      status: true,
+      tutor: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    };
+
+    const [
+      totals,
+      bySubject,
+      byTutor,
+      upcomingSessions,
+      upcomingCount,
+      pendingReviews,
+      pendingReviewCount,
+      spending
+    ] = await Promise.all([
+      prisma.booking.aggregate({
+        where: completed,
+        _count: { _all: true },
+        _sum: { duration: true, totalPrice: true }
+      }),
+      prisma.booking.groupBy({
+        by: ['subject'],
+        where: completed,
+        _count: { _all: true },
+        _sum: { duration: true }
+      }),
+      prisma.booking.groupBy({
+        by: ['tutorId'],
+        where: completed,
+        _count: { _all: true },
+        _sum: { duration: true }
+      }),
+      prisma.booking.findMany({
+        where: upcoming,
+        select: sessionSelect,
+        orderBy: { dateTime: 'asc' },
+        take: SUMMARY_LIST_LIMIT
+      }),
+      prisma.booking.count({ where: upcoming }),
+      prisma.booking.findMany({
+        where: pendingReview,
+        select: sessionSelect,
+        orderBy: { dateTime: 'desc' },
+        take: SUMMARY_LIST_LIMIT
+      }),
+      prisma.booking.count({ where: pendingReview }),
+      getSpendingByMonth(prisma, studentId, spendingFrom, timezone)
+    ]);
+
+    const tutors = await prisma.user.findMany({
+      where: { id: { in: byTutor.map((row) => row.tutorId) } },
+      select: {
+        id: true,
+        name: true
+      }
+    });
+
+    const toHours = (minutes: number | null): number => roundMoney((minutes || 0) / 60);
+
+    res.status(200).json({
+      totals: {
+        completedSessions: totals._count._all,
+        completedHours: toHours(totals._sum.duration),
+        spent: roundMoney(totals._sum.totalPrice || 0)
+      },
+      hoursBySubject: bySubject
+        .map((row) => ({
+          subject: row.subject, // null for sessions booked without a subject
+          sessions: row._count._all,
+          hours: toHours(row._sum.duration)
+        }))
+        .sort((a, b) => b.hours - a.hours),
+      hoursByTutor: byTutor
+        .map((row) => ({
+          tutor: tutors.find((tutor) => tutor.id === row.tutorId),
+          sessions: row._count._all,
+          hours: toHours(row._sum.duration)
+        }))
+        .sort((a, b) => b.hours - a.hours),
+      upcoming: {
+        sessions: upcomingSessions,
+        count: upcomingCount
+      },
+      pendingReviews: {
+        sessions: pendingReviews,
+        count: pendingReviewCount
+      },
+      spending
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get student summary error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch learning summary'
+    });
+  }
+};
+
 /**
  * Get single booking by ID
  * GET /api/bookings/:id
@@ -225,7 +773,35 @@ export const getBookingById = async (
 
     const { id } = req.params;
 
-    const booking = await prisma.booking.findUnique({
+    const parties = await prisma.booking.findUnique({
+      where: { id },
+      select: { studentId: true, tutorId: true }
+    });
+
+    if (!parties) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check if user has access to this booking
+    if (
+      req.user.role !== 'ADMIN' &&
+      parties.studentId !== req.user.userId &&
+      parties.tutorId !== req.user.userId
+    ) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this booking'
+      });
+      return;
+    }
+
+    await expireStaleProposals(id);
+
+    const booking = await prisma.booking.findUniqueOrThrow({
       where: { id },
       include: {
         student: {
@@ -243,13 +819,66 @@ export const getBookingById = async (
             tutorProfile: {
               select: {
                 hourlyRate: true,
-                subjects: true,
+                subjects: offeredSubjectsSelect(),
                 bio: true
               }
             }
           }
         },
-        review: true
+        review: true,
+        series: {
+          select: {
+            id: true,
+            occurrences: true,
+            intervalWeeks: true
+          }
+        },
+        rescheduleProposals: {
+          orderBy: {
+            createdAt: 'desc'
+          }
+        },
+        noShowReport: true
+      }
+    });
+
+    res.status(200).json({ booking });
+  } catch (error) {
+    console.error('Get booking by ID error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch booking'
+    });
+  }
+};
+
+/**
+ * Get the status history of a booking
+ * GET /api/bookings/:id/history
+ * Requires authentication
+ */
+export const getBookingHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        studentId: true,
+        tutorId: true,
+        status: true
       }
     });
 
@@ -261,7 +890,7 @@ export const getBookingById = async (
       return;
     }
 
-    // Check if user has access to this booking
+    // Same access rules as getBookingById
     if (
       req.user.role !== 'ADMIN' &&
       booking.studentId !== req.user.userId &&
@@ -274,28 +903,43 @@ export const getBookingById = async (
       return;
     }
 
-    res.status(200).json({ booking });
+    const events = await prisma.bookingEvent.findMany({
+      where: { bookingId: id },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            role: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    res.status(200).json({
+      bookingId: booking.id,
+      status: booking.status,
+      events,
+      count: events.length
+    });
   } catch (error) {
-    console.error('Get booking by ID error:', error);
+    console.error('Get booking history error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to fetch booking'
+      message: 'Failed to fetch booking history'
     });
   }
 };
 
 /**
- * Update booking status
- * PATCH /api/bookings/:id/status
+ * Get the invoice of a completed booking as HTML or PDF, issuing it on first request
+ * GET /api/bookings/:id/invoice?format=html|pdf
  * Requires authentication
- *
- * Actions:
- * - approve: PENDING → CONFIRMED (tutor only)
- * - reject: PENDING → REJECTED (tutor only)
- * - cancel: PENDING/CONFIRMED → CANCELLED (student or tutor)
- * - complete: CONFIRMED → COMPLETED (tutor only)
  */
-export const updateBookingStatus = async (
+export const getBookingInvoice = async (
   req: Request,
   res: Response
 ): Promise<void> => {
@@ -310,11 +954,1024 @@ export const updateBookingStatus = async (
 
     const { id } = req.params;
 
-    // Validate request body
-    const validatedData = updateBookingStatusSchema.parse(req.body);
+    // Validate query parameters
+    const { format } = getInvoiceQuerySchema.parse(req.query);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        studentId: true,
+        tutorId: true,
+        status: true
+      }
+    });
+
+    if (!booking) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Same access rules as getBookingById
+    if (
+      req.user.role !== 'ADMIN' &&
+      booking.studentId !== req.user.userId &&
+      booking.tutorId !== req.user.userId
+    ) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this booking'
+      });
+      return;
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(booking.status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invoices are only available for completed bookings'
+      });
+      return;
+    }
+
+    // Serializable so concurrent requests cannot issue the same invoice number
+    const invoice = await prisma.$transaction((tx) => getOrIssueInvoice(tx, booking.id), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+    });
+
+    const filename = `${formatInvoiceNumber(invoice.number)}.${format}`;
+
+    if (format === 'pdf') {
+      res
+        .status(200)
+        .type('application/pdf')
+        .setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(renderInvoicePdf(invoice));
+      return;
+    }
+
+    res
+      .status(200)
+      .type('html')
+      .setHeader('Content-Disposition', `inline; filename="${filename}"`)
+      .send(renderInvoiceHtml(invoice));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Another invoice is being issued. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Get booking invoice error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch invoice'
+    });
+  }
+};
+
+/**
+ * Update booking status
+ * PATCH /api/bookings/:id/status
+ * Requires authentication
+ *
+ * Actions:
+ * - approve: PENDING → CONFIRMED (tutor only)
+ * - reject: PENDING → REJECTED (tutor only)
+ * - cancel: PENDING/CONFIRMED → CANCELLED (student or tutor)
+ * - complete: CONFIRMED → COMPLETED (tutor only)
+ *
+ * Cancelling a CONFIRMED booking inside the tutor's free cancellation window is
+ * free; later cancellations store a fee (student) or penalty (tutor) on the booking.
+ */
+export const updateBookingStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updateBookingStatusSchema.parse(req.body);
+    const { action, reason } = validatedData;
+
+    // Get booking
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        tutor: {
+          select: {
+            tutorProfile: {
+              select: {
+                bufferMinutes: true,
+                freeCancellationHours: true,
+                lateCancellationFeeRate: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!booking) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    const messages = {
+      approve: 'Booking approved successfully',
+      reject: 'Booking rejected',
+      cancel: 'Booking cancelled successfully',
+      complete: 'Booking marked as completed'
+    };
+
+    const actorId = req.user.userId;
+    const actor = getBookingActor(booking, actorId);
+
+    // Validate and apply the transition in one serializable transaction. Approval also
+    // re-checks the slot so two overlapping requests cannot both be confirmed.
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const current = await tx.booking.findUniqueOrThrow({ where: { id } });
+
+        const transitionError = validateTransition(current, action, actor);
+        if (transitionError) {
+          return { transitionError, conflicts: [], booking: null, cancellation: null };
+        }
+
+        if (action === 'approve') {
+          const conflicts = await findBookingConflicts(tx, {
+            tutorId: current.tutorId,
+            studentId: current.studentId,
+            dateTime: current.dateTime,
+            duration: current.duration,
+            statuses: ['CONFIRMED'],
+            excludeBookingId: current.id,
+            bufferMinutes: booking.tutor.tutorProfile?.bufferMinutes
+          });
+
+          if (conflicts.length > 0) {
+            return { transitionError: null, conflicts, booking: null, cancellation: null };
+          }
+        }
+
+        // Cancellations are evaluated against the tutor's policy and the outcome stored on the booking
+        let cancellation: CancellationOutcome | null = null;
+        let data: Prisma.BookingUpdateInput = {};
+
+        if (action === 'cancel' && actor) {
+          const profile = booking.tutor.tutorProfile;
+          const now = new Date();
+          cancellation = evaluateCancellation(
+            profile || DEFAULT_CANCELLATION_POLICY,
+            current,
+            actor,
+            now
+          );
+          data = getCancellationData(cancellation, actorId, now);
+        }
+
+        await transitionBooking(tx, current, action, actorId, reason, data);
+
+        const updated = await tx.booking.findUniqueOrThrow({
+          where: { id },
+          include: {
+            student: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            tutor: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                tutorProfile: {
+                  select: {
+                    hourlyRate: true,
+                    subjects: offeredSubjectsSelect()
+                  }
+                }
+              }
+            }
+          }
+        });
+
+        return { transitionError: null, conflicts: [], booking: updated, cancellation };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    // Refunds from cancelling or declining are sent once the transition is saved
+    await sendPendingProviderOperations(prisma, { bookingId: id });
+
+    if (result.transitionError) {
+      res.status(result.transitionError.statusCode).json({
+        error: result.transitionError.error,
+        message: result.transitionError.message
+      });
+      return;
+    }
+
+    if (!result.booking) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking overlaps with an already confirmed booking',
+        conflicts: result.conflicts
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: messages[action],
+      booking: result.booking,
+      ...(result.cancellation && { cancellation: result.cancellation })
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking was modified by another request. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Update booking status error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update booking status'
+    });
+  }
+};
+
+/**
+ * Create a recurring booking series
+ * POST /api/bookings/series
+ * Requires authentication and STUDENT role
+ *
+ * Every occurrence is checked against the tutor's booking rules and existing bookings.
+ * Unless skipUnavailable is set, any failing occurrence rejects the whole series.
+ */
+export const createBookingSeries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    // Validate request body
+    const validatedData = createBookingSeriesSchema.parse(req.body);
+    const studentId = req.user.userId;
+    const firstDateTime = new Date(validatedData.dateTime);
+
+    // Check if tutor exists and is active (availability loaded once the dates are known)
+    const tutorUser = await prisma.user.findUnique({
+      where: { id: validatedData.tutorId },
+      include: { tutorProfile: true }
+    });
+
+    if (!tutorUser || tutorUser.role !== 'TUTOR' || !tutorUser.tutorProfile) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Tutor not found'
+      });
+      return;
+    }
+
+    if (
+      tutorUser.status === 'BANNED' ||
+      tutorUser.tutorProfile.status !== PUBLIC_TUTOR_STATUS
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'This tutor is not available'
+      });
+      return;
+    }
+
+    // The subject must be one the tutor offers
+    const subject = validatedData.subject
+      ? await findOfferedSubject(prisma, tutorUser.tutorProfile.id, validatedData.subject)
+      : null;
+
+    if (validatedData.subject && !subject) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'This tutor does not teach this subject'
+      });
+      return;
+    }
+
+    const timezone = validatedData.timezone || tutorUser.tutorProfile.timezone;
+    const dates = getWeeklyOccurrences(
+      firstDateTime,
+      validatedData.occurrences,
+      validatedData.intervalWeeks,
+      timezone
+    );
+
+    const tutorProfile = await prisma.tutorProfile.findUniqueOrThrow({
+      where: { id: tutorUser.tutorProfile.id },
+      include: availabilityIncludeForRange(
+        dates[0],
+        getBookingEnd(dates[dates.length - 1], validatedData.duration)
+      )
+    });
+
+    const availability = normalizeAvailability(
+      tutorProfile.timezone,
+      tutorProfile.availabilityRules,
+      tutorProfile.availabilityOverrides
+    );
+
+    // Check every occurrence and create the series in one serializable transaction
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const checked = [];
+
+        for (const [index, dateTime] of dates.entries()) {
+          const ruleViolation = getBookingRuleViolation(
+            tutorProfile,
+            availability,
+            dateTime,
+            validatedData.duration
+          );
+          const conflicts: BookingConflict[] = ruleViolation
+            ? []
+            : await findBookingConflicts(tx, {
+                tutorId: validatedData.tutorId,
+                studentId,
+                dateTime,
+                duration: validatedData.duration,
+                bufferMinutes: tutorProfile.bufferMinutes
+              });
+
+          checked.push({
+            index,
+            dateTime: dateTime.toISOString(),
+            ruleViolation,
+            conflicts
+          });
+        }
+
+        const unavailable = checked.filter(
+          (occurrence) => occurrence.ruleViolation || occurrence.conflicts.length > 0
+        );
+        const available = checked.filter((occurrence) => !unavailable.includes(occurrence));
+
+        if (available.length === 0 || (unavailable.length > 0 && !validatedData.skipUnavailable)) {
+          return { unavailable, series: null };
+        }
+
+        const price = getPriceSnapshot(tutorProfile.hourlyRate, validatedData.duration);
+        const fees = getFeeSnapshot(
+          price.totalPrice,
+          await getFeeRates(tx, validatedData.tutorId, studentId)
+        );
+
+        const series = await tx.bookingSeries.create({
+          data: {
+            studentId,
+            tutorId: validatedData.tutorId,
+            intervalWeeks: validatedData.intervalWeeks,
+            occurrences: validatedData.occurrences,
+            timezone,
+            duration: validatedData.duration,
+            subject: subject?.name,
+            notes: validatedData.notes,
+            bookings: {
+              create: available.map((occurrence) => ({
+                studentId,
+                tutorId: validatedData.tutorId,
+                dateTime: new Date(occurrence.dateTime),
+                duration: validatedData.duration,
+                ...price,
+                ...fees,
+                paymentStatus: price.totalPrice > 0 ? 'PENDING' : 'NOT_REQUIRED',
+                subject: subject?.name,
+                subjectId: subject?.id,
+                notes: validatedData.notes
+              }))
+            }
+          },
+          include: {
+            bookings: {
+              orderBy: {
+                dateTime: 'asc'
+              }
+            }
+          }
+        });
+
+        for (const booking of series.bookings) {
+          await recordBookingEvent(tx, {
+            bookingId: booking.id,
+            actorId: studentId,
+            action: 'create',
+            fromStatus: null,
+            toStatus: booking.status,
+            metadata: { seriesId: series.id }
+          });
+        }
+
+        return { unavailable, series };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (!result.series) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `${result.unavailable.length} of ${dates.length} occurrences cannot be booked`,
+        occurrences: result.unavailable
+      });
+      return;
+    }
+
+    // Each occurrence is charged once the whole series is committed
+    const { bookings, ...series } = result.series;
+    const paymentStatuses = await payForBookings(
+      prisma,
+      bookings.map((booking) => booking.id)
+    );
+
+    res.status(201).json({
+      message: 'Booking series requested! Awaiting tutor approval.',
+      series: {
+        ...series,
+        bookings: bookings.map((booking, index) => ({
+          ...booking,
+          paymentStatus: paymentStatuses[index]
+        }))
+      },
+      skipped: result.unavailable
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Another booking for these time slots is being processed. Please try again.'
+      });
+      return;
+    }
+
+    if (error instanceof PaymentProviderError) {
+      res.status(402).json({
+        error: 'Payment Required',
+        message: `Payment failed: ${error.message}`
+      });
+      return;
+    }
+
+    console.error('Create booking series error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create booking series'
+    });
+  }
+};
+
+/**
+ * Get a booking series with all its occurrences
+ * GET /api/bookings/series/:id
+ * Requires authentication
+ */
+export const getBookingSeriesById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const series = await prisma.bookingSeries.findUnique({
+      where: { id },
+      include: {
+        student: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        tutor: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        bookings: {
+          orderBy: {
+            dateTime: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!series) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking series not found'
+      });
+      return;
+    }
+
+    // Check if user has access to this series
+    if (
+      req.user.role !== 'ADMIN' &&
+      series.studentId !== req.user.userId &&
+      series.tutorId !== req.user.userId
+    ) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this booking series'
+      });
+      return;
+    }
+
+    res.status(200).json({ series });
+  } catch (error) {
+    console.error('Get booking series error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch booking series'
+    });
+  }
+};
+
+/**
+ * Update all upcoming occurrences of a booking series
+ * PATCH /api/bookings/series/:id/status
+ * Requires authentication
+ *
+ * Actions (applied to occurrences that have not started yet):
+ * - approve: PENDING → CONFIRMED (tutor only); conflicting occurrences stay PENDING and are reported
+ * - reject: PENDING → REJECTED (tutor only)
+ * - cancel: PENDING/CONFIRMED → CANCELLED (student or tutor)
+ *
+ * Single occurrences are handled by PATCH /api/bookings/:id/status.
+ */
+export const updateBookingSeriesStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updateBookingSeriesStatusSchema.parse(req.body);
     const { action, reason } = validatedData;
 
-    // Get booking
+    const series = await prisma.bookingSeries.findUnique({
+      where: { id },
+      include: {
+        tutor: {
+          select: {
+            tutorProfile: {
+              select: {
+                bufferMinutes: true,
+                freeCancellationHours: true,
+                lateCancellationFeeRate: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!series) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking series not found'
+      });
+      return;
+    }
+
+    const actorId = req.user.userId;
+    const actor = getBookingActor(series, actorId);
+
+    // Check permissions against the series' parties before touching occurrences
+    const permissionError = getPermissionError(action, actor);
+
+    if (permissionError) {
+      res.status(permissionError.statusCode).json({
+        error: permissionError.error,
+        message: permissionError.message
+      });
+      return;
+    }
+
+    const targetStatuses: BookingStatus[] =
+      action === 'cancel' ? ['PENDING', 'CONFIRMED'] : ['PENDING'];
+
+    const targets = await prisma.booking.findMany({
+      where: {
+        seriesId: id,
+        status: { in: targetStatuses },
+        dateTime: { gt: new Date() }
+      },
+      orderBy: {
+        dateTime: 'asc'
+      }
+    });
+
+    if (targets.length === 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `No upcoming occurrences to ${action}`
+      });
+      return;
+    }
+
+    // Approvals re-check each occurrence against confirmed bookings, like single approvals
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const skipped = [];
+        const lateCancellations = [];
+        let updated = 0;
+
+        for (const target of targets) {
+          const booking = await tx.booking.findUniqueOrThrow({ where: { id: target.id } });
+
+          // Skip occurrences whose status changed since they were listed
+          if (validateTransition(booking, action, actor)) {
+            continue;
+          }
+
+          if (action === 'approve') {
+            const conflicts = await findBookingConflicts(tx, {
+              tutorId: booking.tutorId,
+              studentId: booking.studentId,
+              dateTime: booking.dateTime,
+              duration: booking.duration,
+              statuses: ['CONFIRMED'],
+              excludeBookingId: booking.id,
+              bufferMinutes: series.tutor.tutorProfile?.bufferMinutes
+            });
+
+            if (conflicts.length > 0) {
+              skipped.push({
+                bookingId: booking.id,
+                dateTime: booking.dateTime.toISOString(),
+                conflicts
+              });
+              continue;
+            }
+          }
+
+          let data: Prisma.BookingUpdateInput = {};
+
+          if (action === 'cancel' && actor) {
+            const profile = series.tutor.tutorProfile;
+            const now = new Date();
+            const cancellation = evaluateCancellation(
+              profile || DEFAULT_CANCELLATION_POLICY,
+              booking,
+              actor,
+              now
+            );
+            data = getCancellationData(cancellation, actorId, now);
+
+            if (cancellation.lateCancellation) {
+              lateCancellations.push({ bookingId: booking.id, ...cancellation });
+            }
+          }
+
+          await transitionBooking(tx, booking, action, actorId, reason, data);
+          updated++;
+        }
+
+        return { updated, skipped, lateCancellations };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await sendPendingProviderOperations(prisma, { booking: { seriesId: id } });
+
+    const messages = {
+      approve: 'Booking series approved',
+      reject: 'Booking series rejected',
+      cancel: 'Upcoming occurrences cancelled'
+    };
+
+    res.status(200).json({
+      message: messages[action],
+      updated: result.updated,
+      conflicts: result.skipped,
+      ...(action === 'cancel' && { lateCancellations: result.lateCancellations })
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking series was modified by another request. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Update booking series status error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update booking series'
+    });
+  }
+};
+
+/**
+ * Propose a new time for a confirmed booking
+ * POST /api/bookings/:id/reschedule
+ * Requires authentication (student or tutor of the booking)
+ *
+ * The proposed time goes through the same availability and conflict checks as a new booking.
+ * The other party must accept before the booking moves; unanswered proposals expire.
+ */
+export const proposeReschedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = proposeRescheduleSchema.parse(req.body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id }
+    });
+
+    if (!booking) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    if (booking.studentId !== req.user.userId && booking.tutorId !== req.user.userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the student or tutor can reschedule this booking'
+      });
+      return;
+    }
+
+    if (booking.status !== 'CONFIRMED') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot reschedule booking with status ${booking.status}`
+      });
+      return;
+    }
+
+    const now = new Date();
+
+    if (booking.dateTime <= now) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cannot reschedule a session that has already started'
+      });
+      return;
+    }
+
+    const proposedById = req.user.userId;
+    const dateTime = new Date(validatedData.dateTime);
+    const duration = validatedData.duration || booking.duration;
+
+    // A package credit covers one lesson of a fixed length
+    if (booking.packagePurchaseId && duration !== booking.duration) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Sessions paid with a package credit cannot change length'
+      });
+      return;
+    }
+
+    // Check notice period, advance window and availability
+    const { violation, bufferMinutes } = await checkTutorRules(
+      booking.tutorId,
+      dateTime,
+      duration
+    );
+
+    if (violation) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: violation
+      });
+      return;
+    }
+
+    await expireStaleProposals(id);
+
+    // Proposal must be answered before the session (old or new) would start
+    const expiresAt = new Date(
+      Math.min(
+        now.getTime() + RESCHEDULE_PROPOSAL_TTL_HOURS * 60 * 60 * 1000,
+        booking.dateTime.getTime(),
+        dateTime.getTime()
+      )
+    );
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const pending = await tx.rescheduleProposal.findFirst({
+          where: { bookingId: id, status: 'PENDING' }
+        });
+
+        if (pending) {
+          return { pending, conflicts: [], proposal: null };
+        }
+
+        const conflicts = await findBookingConflicts(tx, {
+          tutorId: booking.tutorId,
+          studentId: booking.studentId,
+          dateTime,
+          duration,
+          excludeBookingId: booking.id,
+          bufferMinutes
+        });
+
+        if (conflicts.length > 0) {
+          return { pending: null, conflicts, proposal: null };
+        }
+
+        const proposal = await tx.rescheduleProposal.create({
+          data: {
+            bookingId: id,
+            proposedById,
+            dateTime,
+            duration,
+            previousDateTime: booking.dateTime,
+            previousDuration: booking.duration,
+            reason: validatedData.reason,
+            expiresAt
+          }
+        });
+
+        return { pending: null, conflicts, proposal };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (result.pending) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking already has a pending reschedule proposal',
+        proposal: result.pending
+      });
+      return;
+    }
+
+    if (!result.proposal) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The proposed time overlaps with existing bookings',
+        conflicts: result.conflicts
+      });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Reschedule proposed. Awaiting response.',
+      proposal: result.proposal
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking was modified by another request. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Propose reschedule error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to propose reschedule'
+    });
+  }
+};
+
+/**
+ * Answer the pending reschedule proposal of a booking
+ * PATCH /api/bookings/:id/reschedule
+ * Requires authentication
+ *
+ * Actions:
+ * - accept: move the booking to the proposed time (other party only)
+ * - decline: keep the current time (other party only)
+ * - withdraw: cancel the proposal (proposer only)
+ */
+export const respondToReschedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Validate request body
+    const { action } = respondRescheduleSchema.parse(req.body);
+
     const booking = await prisma.booking.findUnique({
       where: { id }
     });
@@ -327,167 +1984,480 @@ export const updateBookingStatus = async (
       return;
     }
 
-    let newStatus: string;
-    let message: string;
-    let updateData: any = {};
+    if (booking.studentId !== req.user.userId && booking.tutorId !== req.user.userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this booking'
+      });
+      return;
+    }
 
-    // Handle different actions
-    switch (action) {
-      case 'approve':
-        // Only tutor can approve
-        if (booking.tutorId !== req.user.userId) {
-          res.status(403).json({
-            error: 'Forbidden',
-            message: 'Only the tutor can approve bookings'
-          });
-          return;
-        }
+    await expireStaleProposals(id);
 
-        // Can only approve PENDING bookings
-        if (booking.status !== 'PENDING') {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: `Cannot approve booking with status ${booking.status}`
-          });
-          return;
-        }
+    const proposal = await prisma.rescheduleProposal.findFirst({
+      where: { bookingId: id, status: 'PENDING' }
+    });
 
-        newStatus = 'CONFIRMED';
-        message = 'Booking approved successfully';
-        updateData = { status: newStatus };
-        break;
-
-      case 'reject':
-        // Only tutor can reject
-        if (booking.tutorId !== req.user.userId) {
-          res.status(403).json({
-            error: 'Forbidden',
-            message: 'Only the tutor can reject bookings'
-          });
-          return;
-        }
+    if (!proposal) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No pending reschedule proposal for this booking'
+      });
+      return;
+    }
 
-        // Can only reject PENDING bookings
-        if (booking.status !== 'PENDING') {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: `Cannot reject booking with status ${booking.status}`
-          });
-          return;
-        }
+    const responderId = req.user.userId;
+    const isProposer = proposal.proposedById === responderId;
 
-        newStatus = 'REJECTED';
-        message = 'Booking rejected';
-        // If reason provided, append to notes
-        updateData = {
-          status: newStatus,
-          notes: reason ? `${booking.notes ? booking.notes + '\n\n' : ''}[REJECTION REASON]\n${reason}` : booking.notes
-        };
-        break;
-
-      case 'cancel':
-        // Student or tutor can cancel
-        const isStudent = booking.studentId === req.user.userId;
-        const isTutor = booking.tutorId === req.user.userId;
-
-        if (!isStudent && !isTutor) {
-          res.status(403).json({
-            error: 'Forbidden',
-            message: 'Only the student or tutor can cancel this booking'
-          });
-          return;
+    if (action === 'withdraw' && !isProposer) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the proposer can withdraw a reschedule proposal'
+      });
+      return;
+    }
+
+    if (action !== 'withdraw' && isProposer) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Only the other party can ${action} this reschedule proposal`
+      });
+      return;
+    }
+
+    if (action !== 'accept') {
+      // Only a proposal that is still pending can be answered
+      const answered = await prisma.rescheduleProposal.updateMany({
+        where: { id: proposal.id, status: 'PENDING' },
+        data: {
+          status: action === 'decline' ? 'DECLINED' : 'WITHDRAWN',
+          respondedAt: new Date()
         }
+      });
 
-        // Can only cancel PENDING or CONFIRMED bookings
-        if (booking.status !== 'PENDING' && booking.status !== 'CONFIRMED') {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: `Cannot cancel booking with status ${booking.status}`
-          });
-          return;
+      if (answered.count === 0) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'The reschedule proposal was already answered or has expired'
+        });
+        return;
+      }
+
+      const updatedProposal = await prisma.rescheduleProposal.findUniqueOrThrow({
+        where: { id: proposal.id }
+      });
+
+      res.status(200).json({
+        message: action === 'decline' ? 'Reschedule declined' : 'Reschedule withdrawn',
+        proposal: updatedProposal
+      });
+      return;
+    }
+
+    if (booking.status !== 'CONFIRMED') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot reschedule booking with status ${booking.status}`
+      });
+      return;
+    }
+
+    // Re-check the proposed time; the schedule may have changed since it was proposed
+    const { violation, bufferMinutes } = await checkTutorRules(
+      booking.tutorId,
+      proposal.dateTime,
+      proposal.duration
+    );
+
+    if (violation) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: violation
+      });
+      return;
+    }
+
+    // Keep the agreed rate, discount and fee rates; only the length of the session can change the price
+    const getReschedulePrice = (current: Booking) =>
+      getPriceSnapshot(
+        current.hourlyRate,
+        proposal.duration,
+        current.currency,
+        current.discountAmount
+      );
+
+    // A longer session is charged before the reschedule is saved, and voided if it is not
+    const priceDifference = roundMoney(getReschedulePrice(booking).totalPrice - booking.totalPrice);
+    const charge = await chargeBookingDifference(
+      booking,
+      priceDifference,
+      'Reschedule price difference'
+    );
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // The booking may have been cancelled or completed since it was read
+        const current = await tx.booking.findUniqueOrThrow({
+          where: { id }
+        });
+
+        if (current.status !== 'CONFIRMED') {
+          return {
+            rescheduleError: {
+              statusCode: 400,
+              error: 'Bad Request',
+              message: `Cannot reschedule booking with status ${current.status}`
+            },
+            conflicts: [],
+            booking: null
+          };
         }
 
-        newStatus = 'CANCELLED';
-        message = 'Booking cancelled successfully';
-        // If reason provided, append to notes
-        updateData = {
-          status: newStatus,
-          notes: reason ? `${booking.notes ? booking.notes + '\n\n' : ''}[CANCELLATION REASON]\n${reason}` : booking.notes
-        };
-        break;
-
-      case 'complete':
-        // Only tutor can mark as completed
-        if (booking.tutorId !== req.user.userId) {
-          res.status(403).json({
-            error: 'Forbidden',
-            message: 'Only the tutor can mark bookings as completed'
-          });
-          return;
+        const price = getReschedulePrice(current);
+
+        // The amount charged up front must still match the price difference
+        if (roundMoney(price.totalPrice - current.totalPrice) !== priceDifference) {
+          return {
+            rescheduleError: {
+              statusCode: 409,
+              error: 'Conflict',
+              message: 'This booking was modified by another request. Please try again.'
+            },
+            conflicts: [],
+            booking: null
+          };
         }
 
-        // Can only complete CONFIRMED bookings
-        if (booking.status !== 'CONFIRMED') {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: `Cannot complete booking with status ${booking.status}`
-          });
-          return;
+        const conflicts = await findBookingConflicts(tx, {
+          tutorId: current.tutorId,
+          studentId: current.studentId,
+          dateTime: proposal.dateTime,
+          duration: proposal.duration,
+          excludeBookingId: current.id,
+          bufferMinutes
+        });
+
+        if (conflicts.length > 0) {
+          return { rescheduleError: null, conflicts, booking: null };
         }
 
-        // Optional: Check if booking time has passed
-        if (new Date() < booking.dateTime) {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: 'Cannot mark booking as completed before the scheduled time'
-          });
-          return;
+        // The proposal may have been withdrawn, declined or expired since it was read
+        const accepted = await tx.rescheduleProposal.updateMany({
+          where: { id: proposal.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+          data: {
+            status: 'ACCEPTED',
+            respondedAt: new Date()
+          }
+        });
+
+        if (accepted.count === 0) {
+          return {
+            rescheduleError: {
+              statusCode: 409,
+              error: 'Conflict',
+              message: 'The reschedule proposal was already answered or has expired'
+            },
+            conflicts: [],
+            booking: null
+          };
         }
 
-        newStatus = 'COMPLETED';
-        message = 'Booking marked as completed';
-        updateData = { status: newStatus };
-        break;
+        await recordBookingEvent(tx, {
+          bookingId: current.id,
+          actorId: responderId,
+          action: 'reschedule',
+          fromStatus: current.status,
+          toStatus: current.status,
+          reason: proposal.reason || undefined,
+          metadata: {
+            proposalId: proposal.id,
+            proposedById: proposal.proposedById,
+            previousDateTime: current.dateTime.toISOString(),
+            previousDuration: current.duration,
+            dateTime: proposal.dateTime.toISOString(),
+            duration: proposal.duration
+          }
+        });
+
+        const updated = await tx.booking.update({
+          where: { id },
+          data: {
+            dateTime: proposal.dateTime,
+            duration: proposal.duration,
+            ...price,
+            ...getFeeSnapshot(price.totalPrice, current)
+          },
+          include: {
+            student: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            tutor: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                tutorProfile: {
+                  select: {
+                    hourlyRate: true,
+                    subjects: offeredSubjectsSelect()
+                  }
+                }
+              }
+            }
+          }
+        });
+
+        // A different session length changes the price
+        await adjustBookingCharge(tx, updated, current.totalPrice, charge);
+
+        return { rescheduleError: null, conflicts, booking: updated };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    ).catch(async (error) => {
+      if (charge) await voidBookingCharge(booking, charge);
+      throw error;
+    });
+
+    if (!result.booking && charge) {
+      await voidBookingCharge(booking, charge);
+    }
+
+    // A shorter session refunds the difference
+    await sendPendingProviderOperations(prisma, { bookingId: id });
+
+    if (result.rescheduleError) {
+      res.status(result.rescheduleError.statusCode).json({
+        error: result.rescheduleError.error,
+        message: result.rescheduleError.message
+      });
+      return;
+    }
+
+    if (!result.booking) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The proposed time now overlaps with existing bookings',
+        conflicts: result.conflicts
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Booking rescheduled successfully',
+      booking: result.booking
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'This booking was modified by another request. Please try again.'
+      });
+      return;
+    }
+
+    if (error instanceof PaymentProviderError) {
+      res.status(402).json({
+        error: 'Payment Required',
+        message: `Payment for the price difference failed: ${error.message}`
+      });
+      return;
+    }
+
+    console.error('Respond to reschedule error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to respond to reschedule proposal'
+    });
+  }
+};
+
+/**
+ * Report or contest a no-show
+ * PATCH /api/bookings/:id/attendance
+ * Requires authentication (student or tutor of the booking)
+ *
+ * Actions:
+ * - report_no_show: the other party did not attend (within the report window after the session)
+ * - contest: the reported party disputes the report (within the contest window)
+ *
+ * Uncontested reports are upheld automatically; contested ones are decided by an admin.
+ */
+export const updateAttendance = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
 
-      default:
+    // Validate request body
+    const { action, reason } = updateAttendanceSchema.parse(req.body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: { noShowReport: true }
+    });
+
+    if (!booking) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const actor = getBookingActor(booking, userId);
+
+    if (!actor) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the student or tutor can update attendance for this booking'
+      });
+      return;
+    }
+
+    const now = new Date();
+
+    if (action === 'report_no_show') {
+      if (booking.status !== 'CONFIRMED' && booking.status !== 'COMPLETED') {
         res.status(400).json({
           error: 'Bad Request',
-          message: 'Invalid action'
+          message: `Cannot report a no-show for booking with status ${booking.status}`
         });
         return;
-    }
+      }
 
-    // Update booking
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: updateData,
-      include: {
-        student: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        tutor: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            tutorProfile: {
-              select: {
-                hourlyRate: true,
-                subjects: true
-              }
-            }
+      const reportDeadline = new Date(
+        getBookingEnd(booking.dateTime, booking.duration).getTime() +
+          NO_SHOW_REPORT_WINDOW_HOURS * 60 * 60 * 1000
+      );
+
+      if (now < booking.dateTime || now > reportDeadline) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `No-shows can be reported from the session start until ${NO_SHOW_REPORT_WINDOW_HOURS} hours after it ends`
+        });
+        return;
+      }
+
+      if (booking.noShowReport) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'A no-show has already been reported for this booking',
+          report: booking.noShowReport
+        });
+        return;
+      }
+
+      const absentUserId = actor === 'tutor' ? booking.studentId : booking.tutorId;
+
+      const report = await prisma.$transaction(async (tx) => {
+        const created = await tx.noShowReport.create({
+          data: {
+            bookingId: id,
+            reporterId: userId,
+            absentUserId,
+            reason
           }
+        });
+
+        await recordBookingEvent(tx, {
+          bookingId: id,
+          actorId: userId,
+          action: 'report_no_show',
+          fromStatus: booking.status,
+          toStatus: booking.status,
+          reason,
+          metadata: { absentUserId }
+        });
+
+        return created;
+      });
+
+      res.status(201).json({
+        message: 'No-show reported',
+        report
+      });
+      return;
+    }
+
+    // Contest
+    const report = booking.noShowReport;
+
+    if (!report || report.status !== 'REPORTED') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'There is no open no-show report to contest for this booking'
+      });
+      return;
+    }
+
+    if (report.absentUserId !== userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the reported party can contest a no-show'
+      });
+      return;
+    }
+
+    const contestDeadline = new Date(
+      report.createdAt.getTime() + NO_SHOW_CONTEST_WINDOW_HOURS * 60 * 60 * 1000
+    );
+
+    if (now > contestDeadline) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'The contest window for this no-show report has closed'
+      });
+      return;
+    }
+
+    const contested = await prisma.$transaction(async (tx) => {
+      const updated = await tx.noShowReport.update({
+        where: { id: report.id },
+        data: {
+          status: 'CONTESTED',
+          contestReason: reason,
+          contestedAt: now
         }
-      }
+      });
+
+      await recordBookingEvent(tx, {
+        bookingId: id,
+        actorId: userId,
+        action: 'contest_no_show',
+        fromStatus: booking.status,
+        toStatus: booking.status,
+        reason
+      });
+
+      return updated;
     });
 
     res.status(200).json({
-      message,
-      booking: updatedBooking
+      message: 'No-show report contested. An admin will review it.',
+      report: contested
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -499,10 +2469,18 @@ export const updateBookingStatus = async (
       return;
     }
 
-    console.error('Update booking status error:', error);
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A no-show has already been reported for this booking'
+      });
+      return;
+    }
+
+    console.error('Update attendance error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to update booking status'
+      message: 'Failed to update attendance'
     });
   }
 };
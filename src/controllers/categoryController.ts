@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { z } from 'zod';
+import { isSerializationFailure } from '../utils/bookingConflicts';
+import {
+  buildCategoryTree,
+  findCategoryBySlug,
+  getCategoryAndDescendantIds,
+  isCategorySlugTaken,
+  validateCategoryParent
+} from '../utils/categoryTree';
+import { getCachedCategoryStats, invalidateCategoryStats } from '../utils/categoryStats';
 
 const prisma = new PrismaClient();
 
@@ -8,7 +17,17 @@ const prisma = new PrismaClient();
 const categorySchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   description: z.string().optional(),
-  slug: z.string().min(2, 'Slug must be at least 2 characters').regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens').optional()
+  slug: z.string().min(2, 'Slug must be at least 2 characters').regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens').optional(),
+  parentId: z.string().uuid('Invalid parent category ID').nullable().optional(), // null = top level
+  position: z
+    .number()
+    .int('Position must be a whole number')
+    .min(0, 'Position cannot be negative')
+    .optional() // Display order among siblings
+});
+
+const getCategoriesQuerySchema = z.object({
+  format: z.enum(['flat', 'tree']).default('flat')
 });
 
 // Helper function to generate slug from name
@@ -22,8 +41,8 @@ const generateSlug = (name: string): string => {
 };
 
 /**
- * Get all categories
- * GET /api/categories
+ * Get all categories, in display order; as a flat list or nested under their parents
+ * GET /api/categories?format=flat|tree
  * Public route
  */
 export const getCategories = async (
@@ -31,22 +50,40 @@ export const getCategories = async (
   res: Response
 ): Promise<void> => {
   try {
+    // Validate query parameters
+    const { format } = getCategoriesQuerySchema.parse(req.query);
+
     const categories = await prisma.category.findMany({
       include: {
         _count: {
           select: { tutors: true }
         }
       },
-      orderBy: {
-        name: 'asc'
-      }
+      orderBy: [{ position: 'asc' }, { name: 'asc' }]
     });
 
+    if (format === 'tree') {
+      res.status(200).json({
+        categories: buildCategoryTree(categories),
+        count: categories.length
+      });
+      return;
+    }
+
     res.status(200).json({
       categories,
       count: categories.length
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
     console.error('Get categories error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
@@ -55,6 +92,109 @@ export const getCategories = async (
   }
 };
 
+/**
+ * Get a category by slug with its subcategories; former slugs of merged categories
+ * redirect to the category they were merged into
+ * GET /api/categories/:slug
+ * Public route
+ */
+export const getCategoryBySlug = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { slug } = req.params;
+
+    const category = await findCategoryBySlug(prisma, slug);
+
+    if (!category) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Category not found'
+      });
+      return;
+    }
+
+    if (category.slug !== slug) {
+      res.redirect(301, `${req.baseUrl}/${category.slug}`);
+      return;
+    }
+
+    const children = await prisma.category.findMany({
+      where: { parentId: category.id },
+      include: {
+        _count: {
+          select: { tutors: true }
+        }
+      },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }]
+    });
+
+    res.status(200).json({
+      category: {
+        ...category,
+        children
+      }
+    });
+  } catch (error) {
+    console.error('Get category error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch category'
+    });
+  }
+};
+
+/**
+ * Get marketplace stats for a category and its subcategories: approved tutors, hourly rate
+ * distribution, average rating, recent bookings and top-rated tutors. Served from a cache
+ * that is cleared when tutor profiles or reviews change; booking counts refresh when the
+ * cached entry expires (CATEGORY_STATS_TTL_SECONDS).
+ * GET /api/categories/:slug/stats
+ * Public route
+ */
+export const getCategoryStats = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { slug } = req.params;
+
+    const category = await findCategoryBySlug(prisma, slug);
+
+    if (!category) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Category not found'
+      });
+      return;
+    }
+
+    if (category.slug !== slug) {
+      res.redirect(301, `${req.baseUrl}/${category.slug}/stats`);
+      return;
+    }
+
+    const categoryIds = await getCategoryAndDescendantIds(prisma, category.slug);
+    const stats = await getCachedCategoryStats(prisma, category.id, categoryIds);
+
+    res.status(200).json({
+      category: {
+        id: category.id,
+        name: category.name,
+        slug: category.slug
+      },
+      stats
+    });
+  } catch (error) {
+    console.error('Get category stats error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch category stats'
+    });
+  }
+};
+
 /**
  * Create a category
  * POST /api/categories
@@ -71,17 +211,18 @@ export const createCategory = async (
     // Auto-generate slug from name if not provided
     const slug = validatedData.slug || generateSlug(validatedData.name);
 
-    // Check if category with same name or slug exists
-    const existingCategory = await prisma.category.findFirst({
-      where: {
-        OR: [
-          { name: validatedData.name },
-          { slug: slug }
-        ]
-      }
-    });
+    const parentId = validatedData.parentId || null;
 
-    if (existingCategory) {
+    // Check if a category with the same name under the same parent exists, or the slug is
+    // in use (including former slugs of merged categories)
+    const [existingCategory, slugTaken] = await Promise.all([
+      prisma.category.findFirst({
+        where: { name: validatedData.name, parentId }
+      }),
+      isCategorySlugTaken(prisma, slug)
+    ]);
+
+    if (existingCategory || slugTaken) {
       res.status(400).json({
         error: 'Bad Request',
         message: 'Category with this name or slug already exists'
@@ -89,11 +230,30 @@ export const createCategory = async (
       return;
     }
 
+    if (parentId) {
+      const parentError = await validateCategoryParent(prisma, parentId);
+      if (parentError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: parentError
+        });
+        return;
+      }
+    }
+
+    // New categories go after their siblings unless a position is given
+    const last = await prisma.category.aggregate({
+      where: { parentId },
+      _max: { position: true }
+    });
+
     // Create category
     const category = await prisma.category.create({
       data: {
         ...validatedData,
-        slug
+        parentId,
+        slug,
+        position: validatedData.position ?? (last._max.position ?? -1) + 1
       }
     });
 
@@ -111,6 +271,15 @@ export const createCategory = async (
       return;
     }
 
+    // A concurrent request created the same name or slug
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Category with this name or slug already exists'
+      });
+      return;
+    }
+
     console.error('Create category error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
@@ -120,7 +289,7 @@ export const createCategory = async (
 };
 
 /**
- * Update a category
+ * Update a category, including moving it under another parent (with its subcategories)
  * PUT /api/categories/:id
  * Requires authentication and ADMIN role
  */
@@ -134,28 +303,82 @@ export const updateCategory = async (
     // Validate request body
     const validatedData = categorySchema.partial().parse(req.body);
 
-    // Check if category exists
-    const existingCategory = await prisma.category.findUnique({
-      where: { id }
-    });
+    // Checks and update run in one serializable transaction so that two concurrent moves
+    // cannot together create a cycle
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // Check if category exists
+        const existingCategory = await tx.category.findUnique({
+          where: { id }
+        });
 
-    if (!existingCategory) {
-      res.status(404).json({
-        error: 'Not Found',
-        message: 'Category not found'
+        if (!existingCategory) {
+          return {
+            updateError: { statusCode: 404, error: 'Not Found', message: 'Category not found' },
+            category: null
+          };
+        }
+
+        const parentId =
+          validatedData.parentId === undefined ? existingCategory.parentId : validatedData.parentId;
+
+        if (parentId && parentId !== existingCategory.parentId) {
+          const parentError = await validateCategoryParent(tx, parentId, id);
+          if (parentError) {
+            return {
+              updateError: { statusCode: 400, error: 'Bad Request', message: parentError },
+              category: null
+            };
+          }
+        }
+
+        const duplicate = await tx.category.findFirst({
+          where: {
+            id: { not: id },
+            name: validatedData.name || existingCategory.name,
+            parentId
+          }
+        });
+        const slugTaken =
+          validatedData.slug !== undefined &&
+          (await isCategorySlugTaken(tx, validatedData.slug, id));
+
+        if (duplicate || slugTaken) {
+          return {
+            updateError: {
+              statusCode: 400,
+              error: 'Bad Request',
+              message: 'Category with this name or slug already exists'
+            },
+            category: null
+          };
+        }
+
+        // Update category
+        const category = await tx.category.update({
+          where: { id },
+          data: validatedData
+        });
+
+        return { updateError: null, category };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (result.updateError) {
+      res.status(result.updateError.statusCode).json({
+        error: result.updateError.error,
+        message: result.updateError.message
       });
       return;
     }
 
-    // Update category
-    const category = await prisma.category.update({
-      where: { id },
-      data: validatedData
-    });
+    // Moving a category changes which tutors its ancestors' stats cover
+    invalidateCategoryStats();
 
     res.status(200).json({
       message: 'Category updated successfully',
-      category
+      category: result.category
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -167,6 +390,23 @@ export const updateCategory = async (
       return;
     }
 
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Categories changed while this one was being updated. Please try again.'
+      });
+      return;
+    }
+
+    // A concurrent request created the same name or slug
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Category with this name or slug already exists'
+      });
+      return;
+    }
+
     console.error('Update category error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
@@ -192,7 +432,7 @@ export const deleteCategory = async (
       where: { id },
       include: {
         _count: {
-          select: { tutors: true }
+          select: { tutors: true, children: true }
         }
       }
     });
@@ -209,7 +449,18 @@ export const deleteCategory = async (
     if (existingCategory._count.tutors > 0) {
       res.status(400).json({
         error: 'Bad Request',
-        message: `Cannot delete category with ${existingCategory._count.tutors} associated tutors`
+        message:
+          `Cannot delete category with ${existingCategory._count.tutors} associated tutors; ` +
+          'merge it into another category instead'
+      });
+      return;
+    }
+
+    // Subcategories have to be moved or deleted first
+    if (existingCategory._count.children > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot delete category with ${existingCategory._count.children} subcategories`
       });
       return;
     }
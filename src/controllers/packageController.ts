@@ -0,0 +1,344 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { MAX_BOOKING_DURATION } from '../utils/bookingConflicts';
+import { getCreditBalances } from '../utils/lessonCredits';
+import { capturePackagePayment } from '../utils/packagePayments';
+import { PaymentProviderError } from '../utils/paymentProvider';
+import { DEFAULT_CURRENCY, roundMoney } from '../utils/pricing';
+import { PUBLIC_TUTOR_STATUS } from '../utils/tutorApproval';
+
+const prisma = new PrismaClient();
+
+// Validation schema for creating a lesson package
+const createPackageSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters'),
+  lessons: z
+    .number()
+    .int('Lesson count must be a whole number')
+    .min(2, 'A package must include at least 2 lessons')
+    .max(100, 'A package cannot include more than 100 lessons'),
+  duration: z
+    .number()
+    .int('Duration must be a whole number of minutes')
+    .positive('Duration must be positive')
+    .max(MAX_BOOKING_DURATION, `Duration cannot exceed ${MAX_BOOKING_DURATION} minutes`),
+  price: z.number().positive('Price must be positive')
+});
+
+// Validation schema for updating a lesson package (existing purchases keep their terms)
+const updatePackageSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters').optional(),
+  price: z.number().positive('Price must be positive').optional(),
+  active: z.boolean().optional()
+});
+
+/**
+ * Create a lesson package
+ * POST /api/packages
+ * Requires authentication and TUTOR role
+ */
+export const createPackage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    // Validate request body
+    const validatedData = createPackageSchema.parse(req.body);
+
+    const lessonPackage = await prisma.lessonPackage.create({
+      data: {
+        ...validatedData,
+        tutorId: req.user.userId,
+        currency: DEFAULT_CURRENCY
+      }
+    });
+
+    res.status(201).json({
+      message: 'Lesson package created',
+      package: lessonPackage
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Create package error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create lesson package'
+    });
+  }
+};
+
+/**
+ * Update or deactivate a lesson package
+ * PATCH /api/packages/:id
+ * Requires authentication and TUTOR role (package owner)
+ */
+export const updatePackage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updatePackageSchema.parse(req.body);
+
+    const existing = await prisma.lessonPackage.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Lesson package not found'
+      });
+      return;
+    }
+
+    if (existing.tutorId !== req.user.userId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You can only update your own packages'
+      });
+      return;
+    }
+
+    const lessonPackage = await prisma.lessonPackage.update({
+      where: { id },
+      data: validatedData
+    });
+
+    res.status(200).json({
+      message: 'Lesson package updated',
+      package: lessonPackage
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Update package error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update lesson package'
+    });
+  }
+};
+
+/**
+ * Get a tutor's lesson packages that are on sale
+ * GET /api/packages/tutor/:tutorId
+ * Public route
+ */
+export const getTutorPackages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { tutorId } = req.params;
+
+    const packages = await prisma.lessonPackage.findMany({
+      where: {
+        tutorId,
+        active: true,
+        tutor: {
+          tutorProfile: { status: PUBLIC_TUTOR_STATUS }
+        }
+      },
+      orderBy: [{ duration: 'asc' }, { lessons: 'asc' }]
+    });
+
+    res.status(200).json({
+      packages: packages.map((lessonPackage) => ({
+        ...lessonPackage,
+        pricePerLesson: roundMoney(lessonPackage.price / lessonPackage.lessons)
+      })),
+      count: packages.length
+    });
+  } catch (error) {
+    console.error('Get tutor packages error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch lesson packages'
+    });
+  }
+};
+
+/**
+ * Buy a lesson package; its lessons become credits usable with that tutor
+ * POST /api/packages/:id/purchase
+ * Requires authentication and STUDENT role
+ */
+export const purchasePackage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const studentId = req.user.userId;
+
+    const lessonPackage = await prisma.lessonPackage.findUnique({
+      where: { id },
+      include: {
+        tutor: {
+          select: {
+            status: true,
+            tutorProfile: {
+              select: { status: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!lessonPackage || !lessonPackage.active) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Lesson package not found'
+      });
+      return;
+    }
+
+    if (
+      lessonPackage.tutor.status === 'BANNED' ||
+      lessonPackage.tutor.tutorProfile?.status !== PUBLIC_TUTOR_STATUS
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'This tutor is not available'
+      });
+      return;
+    }
+
+    // Save the purchase first; its credits are added once the charge is recorded
+    const created = await prisma.packagePurchase.create({
+      data: {
+        packageId: lessonPackage.id,
+        studentId,
+        tutorId: lessonPackage.tutorId,
+        lessons: lessonPackage.lessons,
+        duration: lessonPackage.duration,
+        pricePerLesson: roundMoney(lessonPackage.price / lessonPackage.lessons),
+        totalPrice: lessonPackage.price,
+        currency: lessonPackage.currency,
+        creditsRemaining: 0,
+        paymentStatus: 'PENDING'
+      }
+    });
+
+    const purchase = await capturePackagePayment(prisma, created.id);
+
+    res.status(201).json({
+      message: `Package purchased! ${purchase.lessons} lesson credits added.`,
+      purchase
+    });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      res.status(402).json({
+        error: 'Payment Required',
+        message: `Payment failed: ${error.message}`
+      });
+      return;
+    }
+
+    console.error('Purchase package error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to purchase lesson package'
+    });
+  }
+};
+
+/**
+ * Get lesson credit balances (role-specific)
+ * GET /api/packages/credits
+ * Requires authentication
+ *
+ * Students see their credits per tutor; tutors see the credits their students hold.
+ */
+export const getCredits = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { userId, role } = req.user;
+
+    const where: Prisma.PackagePurchaseWhereInput =
+      role === 'TUTOR' ? { tutorId: userId } : { studentId: userId };
+
+    const balances = await getCreditBalances(prisma, where);
+
+    // Attach names of the other party
+    const userIds = Array.from(
+      new Set(balances.map((balance) => (role === 'TUTOR' ? balance.studentId : balance.tutorId)))
+    );
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        name: true
+      }
+    });
+
+    res.status(200).json({
+      credits: balances.map((balance) => ({
+        ...balance,
+        ...(role === 'TUTOR'
+          ? { student: users.find((user) => user.id === balance.studentId) }
+          : { tutor: users.find((user) => user.id === balance.tutorId) })
+      })),
+      count: balances.length
+    });
+  } catch (error) {
+    console.error('Get credits error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch lesson credits'
+    });
+  }
+};
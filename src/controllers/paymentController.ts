@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { isSerializationFailure } from '../utils/bookingConflicts';
+import {
+  getAccountBalance,
+  getEscrowBalance,
+  payoutTutor,
+  sendProviderOperation
+} from '../utils/ledger';
+import { PaymentProviderError } from '../utils/paymentProvider';
+import { DEFAULT_CURRENCY } from '../utils/pricing';
+
+const prisma = new PrismaClient();
+
+/**
+ * Get the payment ledger of a booking
+ * GET /api/payments/bookings/:id
+ * Requires authentication (booking parties or admin)
+ */
+export const getBookingPayments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        studentId: true,
+        tutorId: true,
+        status: true,
+        totalPrice: true,
+        currency: true,
+        commissionAmount: true,
+        taxAmount: true
+      }
+    });
+
+    if (!booking) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    const { userId, role } = req.user;
+    if (booking.studentId !== userId && booking.tutorId !== userId && role !== 'ADMIN') {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this booking'
+      });
+      return;
+    }
+
+    const [transactions, escrow] = await Promise.all([
+      prisma.ledgerTransaction.findMany({
+        where: { bookingId: id },
+        include: {
+          entries: {
+            select: {
+              account: true,
+              userId: true,
+              direction: true,
+              amount: true
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'asc'
+        }
+      }),
+      getEscrowBalance(prisma, id)
+    ]);
+
+    res.status(200).json({
+      booking,
+      escrow,
+      transactions
+    });
+  } catch (error) {
+    console.error('Get booking payments error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch booking payments'
+    });
+  }
+};
+
+/**
+ * Get the logged-in tutor's payable balance and recent ledger activity
+ * GET /api/payments/balance
+ * Requires authentication and TUTOR role
+ */
+export const getTutorBalance = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const tutorId = req.user.userId;
+
+    const [balance, entries] = await Promise.all([
+      getAccountBalance(prisma, 'TUTOR_PAYABLE', tutorId),
+      prisma.ledgerEntry.findMany({
+        where: { account: 'TUTOR_PAYABLE', userId: tutorId },
+        include: {
+          transaction: {
+            select: {
+              id: true,
+              type: true,
+              bookingId: true,
+              description: true,
+              providerReference: true
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'desc'
+        },
+        take: 50
+      })
+    ]);
+
+    res.status(200).json({
+      balance,
+      currency: DEFAULT_CURRENCY,
+      entries
+    });
+  } catch (error) {
+    console.error('Get tutor balance error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch balance'
+    });
+  }
+};
+
+/**
+ * Pay out the logged-in tutor's whole payable balance
+ * POST /api/payments/payouts
+ * Requires authentication and TUTOR role
+ */
+export const requestPayout = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const tutorId = req.user.userId;
+
+    const payout = await prisma.$transaction(
+      (tx) => payoutTutor(tx, tutorId),
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (!payout) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'No balance available for payout'
+      });
+      return;
+    }
+
+    // Sent once recorded; a declined payout is reversed and the balance restored
+    const sent = await sendProviderOperation(prisma, payout.id);
+
+    res.status(201).json({
+      message: 'Payout sent',
+      payout: sent
+    });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      res.status(502).json({
+        error: 'Bad Gateway',
+        message: `Payout failed: ${error.message}`
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Your balance changed while the payout was processed. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Request payout error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to process payout'
+    });
+  }
+};
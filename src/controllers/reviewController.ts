@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { invalidateCategoryStats } from '../utils/categoryStats';
 
 const prisma = new PrismaClient();
 
@@ -115,6 +116,8 @@ export const createReview = async (
       }
     });
 
+    invalidateCategoryStats();
+
     res.status(201).json({
       message: 'Review created successfully',
       review
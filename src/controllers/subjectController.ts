@@ -0,0 +1,525 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { isSerializationFailure } from '../utils/bookingConflicts';
+import { getCategoryAndDescendantIds } from '../utils/categoryTree';
+import { invalidateCategoryStats } from '../utils/categoryStats';
+import { cleanSubjectName, mergeSubjects, slugifySubject } from '../utils/subjects';
+
+const prisma = new PrismaClient();
+
+const subjectNameSchema = z
+  .string()
+  .min(2, 'Name must be at least 2 characters')
+  .max(100, 'Name cannot exceed 100 characters')
+  .transform(cleanSubjectName)
+  .refine((name) => slugifySubject(name) !== '', 'Name must contain letters or digits');
+
+// Validation schema for creating a subject
+const createSubjectSchema = z.object({
+  name: subjectNameSchema,
+  categoryId: z.string().uuid('Invalid category ID').optional()
+});
+
+// Validation schema for updating or approving a subject
+const updateSubjectSchema = z.object({
+  name: subjectNameSchema.optional(),
+  categoryId: z.string().uuid('Invalid category ID').nullable().optional(),
+  status: z
+    .enum(['APPROVED'], {
+      errorMap: () => ({ message: 'Status can only be set to APPROVED' })
+    })
+    .optional()
+});
+
+// Validation schema for merging a duplicate subject into another
+const mergeSubjectSchema = z.object({
+  targetId: z.string().uuid('Invalid target subject ID')
+});
+
+const getSubjectsQuerySchema = z.object({
+  category: z.string().optional() // Category slug (subcategories included)
+});
+
+/**
+ * Check that a category exists
+ * @param categoryId - Category ID
+ * @returns True if found
+ */
+const categoryExists = async (categoryId: string): Promise<boolean> => {
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: { id: true }
+  });
+
+  return category !== null;
+};
+
+/**
+ * Get approved subjects with the number of tutors offering them
+ * GET /api/subjects?category=
+ * Public route
+ */
+export const getSubjects = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate query parameters
+    const { category } = getSubjectsQuerySchema.parse(req.query);
+
+    // A category includes all of its subcategories
+    const categoryIds = category && (await getCategoryAndDescendantIds(prisma, category));
+
+    const subjects = await prisma.subject.findMany({
+      where: {
+        status: 'APPROVED',
+        ...(categoryIds && { categoryId: { in: categoryIds } })
+      },
+      include: {
+        category: {
+          select: {
+            id: true,
+            name: true,
+            slug: true
+          }
+        },
+        _count: {
+          select: {
+            tutorProfiles: { where: { status: 'APPROVED' } }
+          }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    res.status(200).json({
+      subjects,
+      count: subjects.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get subjects error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch subjects'
+    });
+  }
+};
+
+/**
+ * Get subjects suggested by tutors that are waiting for review, oldest first
+ * GET /api/subjects/pending
+ * Requires authentication and ADMIN role
+ */
+export const getPendingSubjects = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const subjects = await prisma.subject.findMany({
+      where: { status: 'PENDING' },
+      include: {
+        suggestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        _count: {
+          select: { tutorProfiles: true }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    res.status(200).json({
+      subjects,
+      count: subjects.length
+    });
+  } catch (error) {
+    console.error('Get pending subjects error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch pending subjects'
+    });
+  }
+};
+
+/**
+ * Create an approved subject
+ * POST /api/subjects
+ * Requires authentication and ADMIN role
+ */
+export const createSubject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Validate request body
+    const validatedData = createSubjectSchema.parse(req.body);
+    const slug = slugifySubject(validatedData.name);
+
+    // Spellings with the same slug are the same subject
+    const existingSubject = await prisma.subject.findUnique({
+      where: { slug }
+    });
+
+    if (existingSubject) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Subject already exists as "${existingSubject.name}"`
+      });
+      return;
+    }
+
+    if (validatedData.categoryId && !(await categoryExists(validatedData.categoryId))) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Category not found'
+      });
+      return;
+    }
+
+    const subject = await prisma.subject.create({
+      data: {
+        ...validatedData,
+        slug
+      }
+    });
+
+    res.status(201).json({
+      message: 'Subject created successfully',
+      subject
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A subject with this name already exists'
+      });
+      return;
+    }
+
+    console.error('Create subject error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create subject'
+    });
+  }
+};
+
+/**
+ * Rename a subject, set its category or approve a tutor's suggestion.
+ * Bookings of the subject are relabelled with the new name.
+ * PUT /api/subjects/:id
+ * Requires authentication and ADMIN role
+ */
+export const updateSubject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = updateSubjectSchema.parse(req.body);
+
+    const existingSubject = await prisma.subject.findUnique({
+      where: { id }
+    });
+
+    if (!existingSubject) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Subject not found'
+      });
+      return;
+    }
+
+    if (existingSubject.status === 'MERGED') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cannot update a subject that was merged into another'
+      });
+      return;
+    }
+
+    const slug = validatedData.name && slugifySubject(validatedData.name);
+    if (slug && slug !== existingSubject.slug) {
+      const duplicate = await prisma.subject.findUnique({
+        where: { slug }
+      });
+
+      if (duplicate) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Subject already exists as "${duplicate.name}"; merge the subjects instead`
+        });
+        return;
+      }
+    }
+
+    if (validatedData.categoryId && !(await categoryExists(validatedData.categoryId))) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Category not found'
+      });
+      return;
+    }
+
+    const subject = await prisma.$transaction(async (tx) => {
+      const updated = await tx.subject.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          ...(slug && { slug })
+        }
+      });
+
+      if (validatedData.name && validatedData.name !== existingSubject.name) {
+        await tx.booking.updateMany({
+          where: { subjectId: id },
+          data: { subject: validatedData.name }
+        });
+      }
+
+      return updated;
+    });
+
+    invalidateCategoryStats();
+
+    res.status(200).json({
+      message: 'Subject updated successfully',
+      subject
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A subject with this name already exists'
+      });
+      return;
+    }
+
+    console.error('Update subject error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update subject'
+    });
+  }
+};
+
+/**
+ * Merge a duplicate subject (e.g. "Maths") into another (e.g. "Mathematics").
+ * Tutors and bookings move to the target; the duplicate's name keeps resolving to it.
+ * POST /api/subjects/:id/merge
+ * Requires authentication and ADMIN role
+ */
+export const mergeSubject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { targetId } = mergeSubjectSchema.parse(req.body);
+
+    if (targetId === id) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cannot merge a subject into itself'
+      });
+      return;
+    }
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const [source, target] = await Promise.all([
+          tx.subject.findUnique({ where: { id } }),
+          tx.subject.findUnique({ where: { id: targetId } })
+        ]);
+
+        if (!source || !target) {
+          return {
+            mergeError: { statusCode: 404, error: 'Not Found', message: 'Subject not found' },
+            subject: null
+          };
+        }
+
+        if (source.status === 'MERGED' || target.status === 'MERGED') {
+          return {
+            mergeError: {
+              statusCode: 400,
+              error: 'Bad Request',
+              message: 'Subject was already merged into another'
+            },
+            subject: null
+          };
+        }
+
+        if (target.status !== 'APPROVED') {
+          return {
+            mergeError: {
+              statusCode: 400,
+              error: 'Bad Request',
+              message: 'Approve the target subject before merging into it'
+            },
+            subject: null
+          };
+        }
+
+        await mergeSubjects(tx, source, target);
+
+        const subject = await tx.subject.findUniqueOrThrow({
+          where: { id: target.id },
+          include: {
+            _count: {
+              select: { tutorProfiles: true, bookings: true }
+            }
+          }
+        });
+
+        return { mergeError: null, subject };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (result.mergeError) {
+      res.status(result.mergeError.statusCode).json({
+        error: result.mergeError.error,
+        message: result.mergeError.message
+      });
+      return;
+    }
+
+    invalidateCategoryStats();
+
+    res.status(200).json({
+      message: 'Subjects merged successfully',
+      subject: result.subject
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    if (isSerializationFailure(error)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The subjects changed while they were being merged. Please try again.'
+      });
+      return;
+    }
+
+    console.error('Merge subject error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to merge subjects'
+    });
+  }
+};
+
+/**
+ * Delete a subject, e.g. to reject a tutor's suggestion; tutors offering it lose it
+ * DELETE /api/subjects/:id
+ * Requires authentication and ADMIN role
+ */
+export const deleteSubject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existingSubject = await prisma.subject.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { bookings: true, mergedFrom: true }
+        }
+      }
+    });
+
+    if (!existingSubject) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Subject not found'
+      });
+      return;
+    }
+
+    // Booked subjects are part of the booking history
+    if (existingSubject._count.bookings > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot delete subject with ${existingSubject._count.bookings} bookings; ` +
+          'merge it instead'
+      });
+      return;
+    }
+
+    // Merged duplicates resolve to this subject; deleting it would orphan their names
+    if (existingSubject._count.mergedFrom > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot delete subject that ${existingSubject._count.mergedFrom} other ` +
+          'subjects were merged into; merge it instead'
+      });
+      return;
+    }
+
+    await prisma.subject.delete({
+      where: { id }
+    });
+
+    invalidateCategoryStats();
+
+    res.status(200).json({
+      message: 'Subject deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete subject error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete subject'
+    });
+  }
+};
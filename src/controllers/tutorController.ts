@@ -1,153 +1,538 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { z } from 'zod';
+import {
+  isValidTimezone,
+  hasOverlappingWindows,
+  normalizeAvailability,
+  parseDateOnly,
+  formatDateOnly,
+  getZonedParts,
+  zonedTimeToUtc,
+  getAvailabilityIntervals,
+  generateSlots
+} from '../utils/availability';
+import {
+  ACTIVE_BOOKING_STATUSES,
+  MAX_BOOKING_DURATION,
+  getBookingEnd
+} from '../utils/bookingConflicts';
+import {
+  availabilityIncludeForRange,
+  getBookingWindow
+} from '../utils/bookingRules';
+import { getEarningsByPeriod } from '../utils/earnings';
+import { getCategoryAndDescendantIds } from '../utils/categoryTree';
+import { invalidateCategoryStats } from '../utils/categoryStats';
+import { searchTutorProfiles } from '../utils/tutorSearch';
+import { roundMoney } from '../utils/pricing';
+import {
+  PUBLIC_TUTOR_STATUS,
+  REVIEW_SENSITIVE_EDITS,
+  SUBMITTABLE_STATUSES,
+  getMissingProfileFields,
+  hasSensitiveChanges
+} from '../utils/tutorApproval';
+import {
+  offeredSubjectsSelect,
+  resolveSubject,
+  resolveTutorSubjects,
+  slugifySubject
+} from '../utils/subjects';
 
 const prisma = new PrismaClient();
 
+const MAX_TUTOR_SUBJECTS = 30;
+
+const NOTICE_WINDOW_MESSAGE = 'Minimum notice must be shorter than the advance booking window';
+
 // Validation schema for tutor profile update
 const updateProfileSchema = z.object({
   bio: z.string().optional(),
   hourlyRate: z.number().positive('Hourly rate must be positive').optional(),
-  subjects: z.array(z.string()).optional(),
+  subjects: z
+    .array(
+      z
+        .string()
+        .refine(
+          (name) => slugifySubject(name) !== '',
+          'Subject names must contain letters or digits'
+        )
+    )
+    .max(MAX_TUTOR_SUBJECTS, `A tutor can offer at most ${MAX_TUTOR_SUBJECTS} subjects`)
+    .optional(), // Subject names; unknown names are suggested as new subjects
   experience: z.number().min(0, 'Experience cannot be negative').optional(),
-  availability: z.any().optional(), // JSON object for availability
+  minNoticeHours: z
+    .number()
+    .int('Minimum notice must be a whole number of hours')
+    .min(0, 'Minimum notice cannot be negative')
+    .max(336, 'Minimum notice cannot exceed 336 hours (14 days)')
+    .optional(),
+  maxAdvanceDays: z
+    .number()
+    .int('Advance booking window must be a whole number of days')
+    .min(1, 'Advance booking window must be at least 1 day')
+    .max(365, 'Advance booking window cannot exceed 365 days')
+    .optional(),
+  bufferMinutes: z
+    .number()
+    .int('Buffer must be a whole number of minutes')
+    .min(0, 'Buffer cannot be negative')
+    .max(240, 'Buffer cannot exceed 240 minutes')
+    .optional(),
+  freeCancellationHours: z
+    .number()
+    .int('Free cancellation window must be a whole number of hours')
+    .min(0, 'Free cancellation window cannot be negative')
+    .max(168, 'Free cancellation window cannot exceed 168 hours (7 days)')
+    .optional(),
+  lateCancellationFeeRate: z
+    .number()
+    .min(0, 'Late cancellation fee rate cannot be negative')
+    .max(1, 'Late cancellation fee rate cannot exceed 1 (100% of the session price)')
+    .optional(),
   categories: z.array(z.string()).optional() // Array of category IDs
-});
+}).refine(
+  (data) =>
+    data.minNoticeHours === undefined ||
+    data.maxAdvanceDays === undefined ||
+    data.minNoticeHours < data.maxAdvanceDays * 24,
+  {
+    message: NOTICE_WINDOW_MESSAGE,
+    path: ['minNoticeHours']
+  }
+);
+
+// Time of day in 24-hour "HH:mm" format
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const timeWindowSchema = z
+  .object({
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema
+  })
+  .strict()
+  .refine((window) => window.startTime < window.endTime, {
+    message: 'Start time must be before end time',
+    path: ['endTime']
+  });
+
+const weeklySlotSchema = z
+  .object({
+    dayOfWeek: z
+      .number()
+      .int()
+      .min(0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)')
+      .max(6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema
+  })
+  .strict()
+  .refine((slot) => slot.startTime < slot.endTime, {
+    message: 'Start time must be before end time',
+    path: ['endTime']
+  });
+
+const dateOverrideSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    slots: z.array(timeWindowSchema) // Empty array = unavailable the whole day
+  })
+  .strict()
+  .refine((override) => !hasOverlappingWindows(override.slots), {
+    message: 'Override time slots must not overlap',
+    path: ['slots']
+  });
 
 // Validation schema for availability update
 const updateAvailabilitySchema = z.object({
-  availability: z.any({
-    required_error: 'Availability is required',
-    invalid_type_error: 'Availability must be an object'
+  availability: z
+    .object(
+      {
+        timezone: z
+          .string()
+          .refine(isValidTimezone, 'Timezone must be a valid IANA timezone (e.g. Europe/London)')
+          .optional(),
+        weekly: z.array(weeklySlotSchema, {
+          required_error: 'Weekly availability is required',
+          invalid_type_error: 'Weekly availability must be an array of time slots'
+        }),
+        overrides: z.array(dateOverrideSchema).default([])
+      },
+      {
+        required_error: 'Availability is required',
+        invalid_type_error: 'Availability must be an object'
+      }
+    )
+    .strict('Unknown availability field. Expected timezone, weekly and overrides')
+    .superRefine((availability, ctx) => {
+      for (let day = 0; day <= 6; day++) {
+        const slots = availability.weekly.filter((slot) => slot.dayOfWeek === day);
+        if (hasOverlappingWindows(slots)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Weekly time slots for day ${day} must not overlap`,
+            path: ['weekly']
+          });
+        }
+      }
+
+      const dates = availability.overrides.map((override) => override.date);
+      if (new Set(dates).size !== dates.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Each override date may only appear once',
+          path: ['overrides']
+        });
+      }
+    })
+});
+
+// Longest range the open-slots endpoint will compute, in days
+const MAX_SLOT_RANGE_DAYS = 31;
+const DEFAULT_SLOT_RANGE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts a full ISO datetime or a plain date (interpreted in the requester's timezone)
+const dateOrDateTimeSchema = z
+  .string()
+  .refine(
+    (value) =>
+      DATE_ONLY_REGEX.test(value) ||
+      z.string().datetime({ offset: true }).safeParse(value).success,
+    'Must be an ISO datetime or a YYYY-MM-DD date'
+  );
+
+// Validation schema for open slots query
+const getSlotsQuerySchema = z.object({
+  from: dateOrDateTimeSchema.optional(),
+  to: dateOrDateTimeSchema.optional(),
+  duration: z.coerce
+    .number()
+    .int('Duration must be a whole number of minutes')
+    .positive('Duration must be positive')
+    .max(MAX_BOOKING_DURATION, `Duration cannot exceed ${MAX_BOOKING_DURATION} minutes`)
+    .default(60),
+  step: z.coerce
+    .number()
+    .int('Step must be a whole number of minutes')
+    .min(5, 'Step must be at least 5 minutes')
+    .max(240, 'Step cannot exceed 240 minutes')
+    .default(30),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, 'Timezone must be a valid IANA timezone (e.g. Europe/London)')
+    .default('UTC')
+});
+
+// Longest range the earnings endpoint will aggregate, in days
+const MAX_EARNINGS_RANGE_DAYS = 731;
+const DEFAULT_EARNINGS_RANGE_DAYS = 30;
+
+// Validation schema for earnings query (dates are whole days in the tutor's timezone)
+const getEarningsQuerySchema = z.object({
+  from: z.string().regex(DATE_ONLY_REGEX, 'from must be a YYYY-MM-DD date').optional(),
+  to: z.string().regex(DATE_ONLY_REGEX, 'to must be a YYYY-MM-DD date').optional(), // Inclusive
+  groupBy: z
+    .enum(['day', 'week', 'month'], {
+      errorMap: () => ({ message: 'groupBy must be day, week, or month' })
+    })
+    .default('day')
+});
+
+// Maximum page size for the tutor list
+const MAX_TUTORS_PAGE_SIZE = 100;
+
+// Profile field each tutor list sort option orders by
+const TUTOR_SORT_FIELDS = {
+  rating: 'rating',
+  price: 'hourlyRate',
+  experience: 'experience',
+  reviews: 'reviewCount',
+  newest: 'createdAt'
+} as const;
+
+// Validation schema for the tutor list query
+const getTutorsQuerySchema = z
+  .object({
+    category: z.string().optional(), // Category slug (subcategories included)
+    subject: z.string().optional(), // Subject name or slug (any spelling of it)
+    search: z.string().optional(), // Free text over name, subjects, categories and bio
+    minRating: z.coerce.number().min(0, 'minRating cannot be negative').optional(),
+    minPrice: z.coerce.number().min(0, 'minPrice cannot be negative').optional(),
+    maxPrice: z.coerce.number().min(0, 'maxPrice cannot be negative').optional(),
+    minExperience: z.coerce.number().int('minExperience must be a whole number').optional(),
+    maxExperience: z.coerce.number().int('maxExperience must be a whole number').optional(),
+    availableOn: z
+      .string()
+      .regex(DATE_ONLY_REGEX, 'availableOn must be a YYYY-MM-DD date')
+      .optional(), // In the tutor's timezone
+    sortBy: z
+      .enum(['relevance', 'rating', 'price', 'experience', 'reviews', 'newest'], {
+        errorMap: () => ({
+          message: 'sortBy must be relevance, rating, price, experience, reviews, or newest'
+        })
+      })
+      .optional(), // Defaults to relevance when searching, rating otherwise
+    order: z
+      .enum(['asc', 'desc'], {
+        errorMap: () => ({ message: 'order must be asc or desc' })
+      })
+      .default('desc'),
+    page: z.coerce
+      .number()
+      .int('Page must be a whole number')
+      .min(1, 'Page must be at least 1')
+      .default(1),
+    limit: z.coerce
+      .number()
+      .int('Limit must be a whole number')
+      .min(1, 'Limit must be at least 1')
+      .max(MAX_TUTORS_PAGE_SIZE, `Limit cannot exceed ${MAX_TUTORS_PAGE_SIZE}`)
+      .default(20)
   })
+  .refine(
+    (query) =>
+      query.minPrice === undefined ||
+      query.maxPrice === undefined ||
+      query.minPrice <= query.maxPrice,
+    { message: 'minPrice cannot exceed maxPrice', path: ['minPrice'] }
+  )
+  .refine(
+    (query) =>
+      query.minExperience === undefined ||
+      query.maxExperience === undefined ||
+      query.minExperience <= query.maxExperience,
+    { message: 'minExperience cannot exceed maxExperience', path: ['minExperience'] }
+  )
+  .refine((query) => query.sortBy !== 'relevance' || query.search, {
+    message: 'sortBy=relevance requires a search',
+    path: ['sortBy']
+  });
+
+// Subjects shown to a tutor on their own profile, including suggestions still under review
+const ownSubjectsSelect = () => ({
+  select: {
+    id: true,
+    name: true,
+    slug: true,
+    status: true
+  },
+  orderBy: { name: 'asc' as const }
+});
+
+// Availability relations to load alongside a tutor profile (past overrides are omitted)
+const availabilitySelect = () => ({
+  timezone: true,
+  availabilityRules: {
+    select: {
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true
+    }
+  },
+  availabilityOverrides: {
+    where: {
+      date: { gte: parseDateOnly(new Date().toISOString().slice(0, 10)) }
+    },
+    select: {
+      date: true,
+      startTime: true,
+      endTime: true
+    }
+  }
 });
 
 /**
- * Get all tutors with filters
- * GET /api/tutors?category=&minRating=&maxPrice=&search=
+ * Get tutors with filters, sorting and pagination (all applied in the database)
+ * GET /api/tutors?category=&subject=&search=&minRating=&minPrice=&maxPrice=
+ *   &minExperience=&maxExperience=&availableOn=&sortBy=&order=&page=&limit=
  */
 export const getTutors = async (req: Request, res: Response): Promise<void> => {
   try {
+    // Validate query parameters
     const {
       category,
+      subject,
+      search,
       minRating,
+      minPrice,
       maxPrice,
-      search,
-      sortBy = 'rating',
-      order = 'desc'
-    } = req.query;
-
-    // Build filter conditions
-    const where: any = {
-      role: 'TUTOR',
-      status: 'ACTIVE',
-      tutorProfile: {
-        isNot: null
+      minExperience,
+      maxExperience,
+      availableOn,
+      sortBy,
+      order,
+      page,
+      limit
+    } = getTutorsQuerySchema.parse(req.query);
+
+    const filters: Prisma.TutorProfileWhereInput[] = [
+      {
+        status: PUBLIC_TUTOR_STATUS,
+        user: {
+          role: 'TUTOR',
+          status: 'ACTIVE'
+        }
       }
-    };
+    ];
 
-    // Search by name
-    if (search) {
-      where.name = {
-        contains: String(search),
-        mode: 'insensitive'
-      };
+    // A category includes all of its subcategories
+    if (category) {
+      const categoryIds = await getCategoryAndDescendantIds(prisma, category);
+      filters.push({ categories: { some: { id: { in: categoryIds } } } });
     }
 
-    // Fetch tutors with profiles
-    let tutors = await prisma.user.findMany({
-      where,
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        createdAt: true,
-        tutorProfile: {
-          select: {
-            id: true,
-            bio: true,
-            hourlyRate: true,
-            subjects: true,
-            experience: true,
-            rating: true,
-            reviewCount: true,
-            categories: {
-              select: {
-                id: true,
-                name: true,
-                slug: true
-              }
-            }
-          }
+    // Names of merged subjects find tutors of the subject they were merged into
+    if (subject) {
+      const resolved = await resolveSubject(prisma, subject);
+      filters.push({
+        subjects: {
+          some: { slug: resolved?.slug ?? slugifySubject(subject), status: 'APPROVED' }
         }
-      }
-    });
+      });
+    }
 
-    // Filter by category
-    if (category) {
-      tutors = tutors.filter((tutor) =>
-        tutor.tutorProfile?.categories.some(
-          (cat) => cat.slug === String(category)
-        )
-      );
+    if (minRating !== undefined) {
+      filters.push({ rating: { gte: minRating } });
     }
 
-    // Filter by rating
-    if (minRating) {
-      tutors = tutors.filter(
-        (tutor) =>
-          tutor.tutorProfile && tutor.tutorProfile.rating >= Number(minRating)
-      );
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      filters.push({ hourlyRate: { gte: minPrice, lte: maxPrice } });
     }
 
-    // Filter by max price
-    if (maxPrice) {
-      tutors = tutors.filter(
-        (tutor) =>
-          tutor.tutorProfile && tutor.tutorProfile.hourlyRate <= Number(maxPrice)
-      );
+    if (minExperience !== undefined || maxExperience !== undefined) {
+      filters.push({ experience: { gte: minExperience, lte: maxExperience } });
     }
 
-    // Sort tutors
-    if (sortBy === 'rating') {
-      tutors.sort((a, b) => {
-        const ratingA = a.tutorProfile?.rating || 0;
-        const ratingB = b.tutorProfile?.rating || 0;
-        return order === 'desc' ? ratingB - ratingA : ratingA - ratingB;
+    // Available on a date (in the tutor's timezone): an override with hours on that date,
+    // or weekly hours on that weekday and no override replacing them
+    if (availableOn) {
+      const date = parseDateOnly(availableOn);
+      filters.push({
+        OR: [
+          { availabilityOverrides: { some: { date, startTime: { not: null } } } },
+          {
+            availabilityOverrides: { none: { date } },
+            availabilityRules: { some: { dayOfWeek: date.getUTCDay() } }
+          }
+        ]
       });
-    } else if (sortBy === 'price') {
-      tutors.sort((a, b) => {
-        const priceA = a.tutorProfile?.hourlyRate || 0;
-        const priceB = b.tutorProfile?.hourlyRate || 0;
-        return order === 'desc' ? priceB - priceA : priceA - priceB;
+    }
+
+    // Full-text search ranks the tutors that pass all the other filters
+    const matches = search
+      ? await searchTutorProfiles(prisma, search, { AND: filters })
+      : null;
+    if (matches) {
+      filters.push({ id: { in: matches.map((match) => match.id) } });
+    }
+
+    // Relevance only means something when the search had words to match
+    const requestedSort = sortBy || 'relevance';
+    const sort = requestedSort === 'relevance' && !matches ? 'rating' : requestedSort;
+
+    const where: Prisma.TutorProfileWhereInput = { AND: filters };
+    const select = {
+      id: true,
+      bio: true,
+      hourlyRate: true,
+      subjects: offeredSubjectsSelect(),
+      experience: true,
+      rating: true,
+      reviewCount: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      },
+      categories: {
+        select: {
+          id: true,
+          name: true,
+          slug: true
+        }
+      }
+    } satisfies Prisma.TutorProfileSelect;
+
+    let tutors: Prisma.TutorProfileGetPayload<{ select: typeof select }>[];
+    let total: number;
+
+    if (sort === 'relevance') {
+      // Matches are already filtered and ordered by their search rank
+      const ranked = matches || [];
+      const pageIds = ranked.slice((page - 1) * limit, page * limit).map((match) => match.id);
+
+      const profiles = await prisma.tutorProfile.findMany({
+        where: { id: { in: pageIds } },
+        select
       });
+
+      tutors = pageIds.flatMap((id) => profiles.filter((profile) => profile.id === id));
+      total = ranked.length;
+    } else {
+      // Sort by the requested field, then by ID so pages do not overlap
+      const orderBy: Prisma.TutorProfileOrderByWithRelationInput[] = [
+        { [TUTOR_SORT_FIELDS[sort]]: order },
+        { id: 'asc' }
+      ];
+
+      [tutors, total] = await Promise.all([
+        prisma.tutorProfile.findMany({
+          where,
+          select,
+          orderBy,
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.tutorProfile.count({ where })
+      ]);
     }
 
     // Transform tutors to match frontend interface
-    const transformedTutors = tutors
-      .filter(tutor => tutor.tutorProfile) // Only include tutors with profiles
-      .map(tutor => ({
-        id: tutor.tutorProfile!.id,
-        userId: tutor.id,
-        bio: tutor.tutorProfile!.bio || null,
-        hourlyRate: tutor.tutorProfile!.hourlyRate || 0,
-        subjects: tutor.tutorProfile!.subjects || [],
-        experience: tutor.tutorProfile!.experience || 0,
-        rating: tutor.tutorProfile!.rating || 0,
-        reviewCount: tutor.tutorProfile!.reviewCount || 0,
-        user: {
-          id: tutor.id,
-          name: tutor.name || 'Unknown',
-          email: tutor.email
-        },
-        categories: tutor.tutorProfile!.categories || []
-      }));
+    const transformedTutors = tutors.map((tutor) => ({
+      id: tutor.id,
+      userId: tutor.user.id,
+      bio: tutor.bio || null,
+      hourlyRate: tutor.hourlyRate || 0,
+      subjects: tutor.subjects || [],
+      experience: tutor.experience || 0,
+      rating: tutor.rating || 0,
+      reviewCount: tutor.reviewCount || 0,
+      user: {
+        id: tutor.user.id,
+        name: tutor.user.name || 'Unknown',
+        email: tutor.user.email
+      },
+      categories: tutor.categories || []
+    }));
 
     res.status(200).json({
       tutors: transformedTutors,
-      count: transformedTutors.length
+      count: transformedTutors.length,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
     console.error('Get tutors error:', error);
     res.status(500).json({
       error: 'Internal Server Error',
@@ -177,11 +562,16 @@ export const getTutorById = async (
         tutorProfile: {
           select: {
             id: true,
+            status: true,
             bio: true,
             hourlyRate: true,
-            subjects: true,
+            subjects: offeredSubjectsSelect(),
             experience: true,
-            availability: true,
+            minNoticeHours: true,
+            maxAdvanceDays: true,
+            freeCancellationHours: true,
+            lateCancellationFeeRate: true,
+            ...availabilitySelect(),
             rating: true,
             reviewCount: true,
             categories: {
@@ -215,7 +605,8 @@ export const getTutorById = async (
       }
     });
 
-    if (!tutor || tutor.tutorProfile === null) {
+    // Profiles that are not approved are not public
+    if (!tutor || !tutor.tutorProfile || tutor.tutorProfile.status !== PUBLIC_TUTOR_STATUS) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Tutor not found'
@@ -223,7 +614,22 @@ export const getTutorById = async (
       return;
     }
 
-    res.status(200).json({ tutor });
+    const { timezone, availabilityRules, availabilityOverrides, status, ...tutorProfile } =
+      tutor.tutorProfile;
+
+    res.status(200).json({
+      tutor: {
+        ...tutor,
+        tutorProfile: {
+          ...tutorProfile,
+          availability: normalizeAvailability(
+            timezone,
+            availabilityRules,
+            availabilityOverrides
+          )
+        }
+      }
+    });
   } catch (error) {
     console.error('Get tutor by ID error:', error);
     res.status(500).json({
@@ -233,6 +639,173 @@ export const getTutorById = async (
   }
 };
 
+/**
+ * Get open bookable slots for a tutor
+ * GET /api/tutors/:id/slots?from=&to=&duration=&step=&timezone=
+ * Public route
+ */
+export const getTutorSlots = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate query parameters
+    const validatedQuery = getSlotsQuerySchema.parse(req.query);
+    const { duration, step, timezone } = validatedQuery;
+
+    // Plain dates cover whole days in the requester's timezone
+    const now = new Date();
+    const from = !validatedQuery.from
+      ? now
+      : DATE_ONLY_REGEX.test(validatedQuery.from)
+        ? zonedTimeToUtc(validatedQuery.from, '00:00', timezone)
+        : new Date(validatedQuery.from);
+    const to = !validatedQuery.to
+      ? new Date(from.getTime() + DEFAULT_SLOT_RANGE_DAYS * DAY_MS)
+      : DATE_ONLY_REGEX.test(validatedQuery.to)
+        ? zonedTimeToUtc(
+            formatDateOnly(
+              new Date(parseDateOnly(validatedQuery.to).getTime() + DAY_MS)
+            ),
+            '00:00',
+            timezone
+          )
+        : new Date(validatedQuery.to);
+
+    if (to <= from) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'to must be after from'
+      });
+      return;
+    }
+
+    if (to.getTime() - from.getTime() > MAX_SLOT_RANGE_DAYS * DAY_MS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days`
+      });
+      return;
+    }
+
+    const tutor = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        role: true,
+        status: true,
+        tutorProfile: {
+          select: {
+            status: true,
+            timezone: true,
+            minNoticeHours: true,
+            maxAdvanceDays: true,
+            bufferMinutes: true,
+            ...availabilityIncludeForRange(from, to)
+          }
+        }
+      }
+    });
+
+    if (!tutor || tutor.role !== 'TUTOR' || !tutor.tutorProfile) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Tutor not found'
+      });
+      return;
+    }
+
+    if (tutor.status === 'BANNED' || tutor.tutorProfile.status !== PUBLIC_TUTOR_STATUS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'This tutor is not available'
+      });
+      return;
+    }
+
+    const availability = normalizeAvailability(
+      tutor.tutorProfile.timezone,
+      tutor.tutorProfile.availabilityRules,
+      tutor.tutorProfile.availabilityOverrides
+    );
+
+    // Existing bookings that hold the tutor's time
+    const bookings = await prisma.booking.findMany({
+      where: {
+        tutorId: id,
+        status: { in: ACTIVE_BOOKING_STATUSES },
+        dateTime: {
+          lt: new Date(to.getTime() + tutor.tutorProfile.bufferMinutes * 60 * 1000),
+          gt: new Date(
+            from.getTime() - (MAX_BOOKING_DURATION + tutor.tutorProfile.bufferMinutes) * 60 * 1000
+          )
+        }
+      },
+      select: {
+        dateTime: true,
+        duration: true
+      }
+    });
+
+    // Pad existing sessions with the tutor's buffer time
+    const buffer = tutor.tutorProfile.bufferMinutes * 60 * 1000;
+    const busy = bookings.map((booking) => ({
+      start: new Date(booking.dateTime.getTime() - buffer),
+      end: new Date(getBookingEnd(booking.dateTime, booking.duration).getTime() + buffer)
+    }));
+
+    // Only offer slots the tutor's notice and advance rules allow
+    const { earliest, latest } = getBookingWindow(tutor.tutorProfile, now);
+
+    const slots = generateSlots(
+      getAvailabilityIntervals(availability, from, to),
+      busy,
+      duration,
+      step,
+      from > earliest ? from : earliest
+    )
+      .filter((slot) => slot.start < to && slot.start <= latest)
+      .map((slot) => {
+        const local = getZonedParts(slot.start, timezone);
+        return {
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+          localDate: local.date,
+          localTime: local.time
+        };
+      });
+
+    res.status(200).json({
+      tutorId: tutor.id,
+      timezone,
+      tutorTimezone: availability.timezone,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      duration,
+      step,
+      slots,
+      count: slots.length
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get tutor slots error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch available slots'
+    });
+  }
+};
+
 /**
  * Get current tutor's profile
  * GET /api/tutors/profile
@@ -260,12 +833,31 @@ export const getProfile = async (
             name: true,
             slug: true
           }
-        }
+        },
+        subjects: ownSubjectsSelect(),
+        availabilityRules: availabilitySelect().availabilityRules,
+        availabilityOverrides: availabilitySelect().availabilityOverrides
       }
     });
 
+    if (!profile) {
+      res.status(200).json({
+        tutorProfile: null
+      });
+      return;
+    }
+
+    const { availabilityRules, availabilityOverrides, ...tutorProfile } = profile;
+
     res.status(200).json({
-      tutorProfile: profile
+      tutorProfile: {
+        ...tutorProfile,
+        availability: normalizeAvailability(
+          profile.timezone,
+          availabilityRules,
+          availabilityOverrides
+        )
+      }
     });
   } catch (error) {
     console.error('Get profile error:', error);
@@ -276,6 +868,154 @@ export const getProfile = async (
   }
 };
 
+/**
+ * Get the current tutor's earnings and booking metrics
+ * GET /api/tutors/earnings?from=&to=&groupBy=day|week|month
+ * Requires authentication and TUTOR role
+ *
+ * All figures are aggregated in the database; bookings count towards the period
+ * their session falls in.
+ */
+export const getEarnings = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    // Validate query parameters
+    const validatedQuery = getEarningsQuerySchema.parse(req.query);
+    const { groupBy } = validatedQuery;
+    const tutorId = req.user.userId;
+
+    const profile = await prisma.tutorProfile.findUnique({
+      where: { userId: tutorId },
+      select: { timezone: true }
+    });
+    const timezone = profile?.timezone || 'UTC';
+
+    // Default to the last 30 days including today
+    const now = new Date();
+    const today = getZonedParts(now, timezone).date;
+    const toDate = validatedQuery.to || today;
+    const fromDate =
+      validatedQuery.from ||
+      formatDateOnly(
+        new Date(parseDateOnly(toDate).getTime() - (DEFAULT_EARNINGS_RANGE_DAYS - 1) * DAY_MS)
+      );
+
+    const from = zonedTimeToUtc(fromDate, '00:00', timezone);
+    const to = zonedTimeToUtc(
+      formatDateOnly(new Date(parseDateOnly(toDate).getTime() + DAY_MS)),
+      '00:00',
+      timezone
+    );
+
+    if (to <= from) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'to must not be before from'
+      });
+      return;
+    }
+
+    if (to.getTime() - from.getTime() > MAX_EARNINGS_RANGE_DAYS * DAY_MS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Date range cannot exceed ${MAX_EARNINGS_RANGE_DAYS} days`
+      });
+      return;
+    }
+
+    const inRange = { tutorId, dateTime: { gte: from, lt: to } };
+
+    const [periods, upcoming, decisions, cancellations] = await Promise.all([
+      getEarningsByPeriod(prisma, tutorId, from, to, groupBy, timezone),
+      // Confirmed sessions still to come, regardless of the range
+      prisma.booking.aggregate({
+        where: { tutorId, status: 'CONFIRMED', dateTime: { gte: now } },
+        _sum: { totalPrice: true },
+        _count: true
+      }),
+      // How the tutor answered booking requests in the range
+      prisma.bookingEvent.groupBy({
+        by: ['action'],
+        where: {
+          action: { in: ['approve', 'reject', 'expire'] },
+          booking: inRange
+        },
+        _count: true
+      }),
+      prisma.booking.groupBy({
+        by: ['cancelledById', 'lateCancellation'],
+        where: { ...inRange, status: 'CANCELLED' },
+        _count: true
+      })
+    ]);
+
+    const decisionCount = (action: string) =>
+      decisions.find((row) => row.action === action)?._count || 0;
+    const approved = decisionCount('approve');
+    const answered = approved + decisionCount('reject') + decisionCount('expire');
+
+    const cancellationCount = (filter: (row: (typeof cancellations)[number]) => boolean) =>
+      cancellations.filter(filter).reduce((sum, row) => sum + row._count, 0);
+
+    const sum = (key: Exclude<keyof (typeof periods)[number], 'period'>) =>
+      periods.reduce((total, period) => total + period[key], 0);
+
+    res.status(200).json({
+      from: fromDate,
+      to: toDate,
+      groupBy,
+      timezone,
+      totals: {
+        completedSessions: sum('completedSessions'),
+        completedHours: sum('completedHours'),
+        grossEarnings: roundMoney(sum('grossEarnings')),
+        commission: roundMoney(sum('commission')),
+        tax: roundMoney(sum('tax')),
+        netEarnings: roundMoney(sum('grossEarnings') - sum('commission') - sum('tax')),
+        refunds: roundMoney(sum('refunds'))
+      },
+      upcoming: {
+        confirmedSessions: upcoming._count,
+        confirmedRevenue: upcoming._sum.totalPrice || 0
+      },
+      // Share of requests approved out of those approved, rejected or left to expire
+      acceptanceRate: answered > 0 ? approved / answered : null,
+      cancellations: {
+        total: cancellationCount(() => true),
+        byTutor: cancellationCount((row) => row.cancelledById === tutorId),
+        byStudent: cancellationCount((row) => row.cancelledById !== tutorId),
+        late: cancellationCount((row) => row.lateCancellation)
+      },
+      periods
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get earnings error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch earnings'
+    });
+  }
+};
+
 /**
  * Update tutor profile
  * PUT /api/tutors/profile
@@ -297,51 +1037,110 @@ export const updateProfile = async (
     // Validate request body
     const validatedData = updateProfileSchema.parse(req.body);
 
-    // Check if tutor profile exists
-    const existingProfile = await prisma.tutorProfile.findUnique({
-      where: { userId: req.user.userId }
-    });
+    const userId = req.user.userId;
+    const { categories, subjects, ...profileData } = validatedData;
+    const include = {
+      categories: true,
+      subjects: ownSubjectsSelect()
+    };
+
+    const { existingProfile, profile } = await prisma.$transaction(async (tx) => {
+      // Check if tutor profile exists
+      const existingProfile = await tx.tutorProfile.findUnique({
+        where: { userId },
+        include: { subjects: { select: { id: true } } }
+      });
+
+      // Unknown subject names become suggestions for an admin to review
+      const subjectIds = subjects && (await resolveTutorSubjects(tx, subjects, userId));
+
+      if (!existingProfile) {
+        // Create new profile
+        const profile = await tx.tutorProfile.create({
+          data: {
+            userId,
+            hourlyRate: validatedData.hourlyRate || 0,
+            ...profileData,
+            ...(categories && {
+              categories: {
+                connect: categories.map((catId) => ({ id: catId }))
+              }
+            }),
+            ...(subjectIds && {
+              subjects: {
+                connect: subjectIds.map((id) => ({ id }))
+              }
+            })
+          },
+          include
+        });
+
+        return { existingProfile, profile };
+      }
 
-    let profile;
-    const { categories, ...profileData } = validatedData;
+      // Check the notice against the booking window as both will be saved
+      const minNoticeHours = profileData.minNoticeHours ?? existingProfile.minNoticeHours;
+      const maxAdvanceDays = profileData.maxAdvanceDays ?? existingProfile.maxAdvanceDays;
+
+      if (minNoticeHours >= maxAdvanceDays * 24) {
+        return { existingProfile, profile: null };
+      }
+
+      // Changing the rate, subjects or bio of an approved profile can send it back for review
+      const needsReview =
+        REVIEW_SENSITIVE_EDITS &&
+        existingProfile.status === 'APPROVED' &&
+        hasSensitiveChanges(
+          {
+            ...existingProfile,
+            subjectIds: existingProfile.subjects.map((subject) => subject.id)
+          },
+          { ...profileData, subjectIds }
+        );
 
-    if (existingProfile) {
       // Update existing profile
-      profile = await prisma.tutorProfile.update({
-        where: { userId: req.user.userId },
+      const profile = await tx.tutorProfile.update({
+        where: { userId },
         data: {
           ...profileData,
+          ...(needsReview && {
+            status: 'PENDING_REVIEW',
+            statusReason: null,
+            submittedAt: new Date()
+          }),
           ...(categories && {
             categories: {
               set: categories.map((catId) => ({ id: catId }))
             }
-          })
-        },
-        include: {
-          categories: true
-        }
-      });
-    } else {
-      // Create new profile
-      profile = await prisma.tutorProfile.create({
-        data: {
-          userId: req.user.userId,
-          hourlyRate: validatedData.hourlyRate || 0,
-          ...profileData,
-          ...(categories && {
-            categories: {
-              connect: categories.map((catId) => ({ id: catId }))
+          }),
+          ...(subjectIds && {
+            subjects: {
+              set: subjectIds.map((id) => ({ id }))
             }
           })
         },
-        include: {
-          categories: true
-        }
+        include
+      });
+
+      return { existingProfile, profile };
+    });
+
+    // Only rejected when the merged notice and booking window do not fit together
+    if (!profile) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: NOTICE_WINDOW_MESSAGE
       });
+      return;
     }
 
+    invalidateCategoryStats();
+
     res.status(200).json({
-      message: 'Profile updated successfully',
+      message:
+        profile.status === 'PENDING_REVIEW' && existingProfile?.status === 'APPROVED'
+          ? 'Profile updated and sent for review'
+          : 'Profile updated successfully',
       profile
     });
   } catch (error) {
@@ -362,6 +1161,83 @@ export const updateProfile = async (
   }
 };
 
+/**
+ * Submit the current tutor's profile for admin review
+ * POST /api/tutors/profile/submit
+ * Requires authentication and TUTOR role
+ */
+export const submitProfile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const existingProfile = await prisma.tutorProfile.findUnique({
+      where: { userId: req.user.userId },
+      include: { subjects: { select: { id: true } } }
+    });
+
+    if (!existingProfile) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Tutor profile not found. Please create your profile first.'
+      });
+      return;
+    }
+
+    if (!SUBMITTABLE_STATUSES.includes(existingProfile.status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Cannot submit a tutor profile with status ${existingProfile.status}`
+      });
+      return;
+    }
+
+    const missing = getMissingProfileFields({
+      ...existingProfile,
+      subjectIds: existingProfile.subjects.map((subject) => subject.id)
+    });
+    if (missing.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Profile is incomplete: add ${missing.join(', ')}`
+      });
+      return;
+    }
+
+    const profile = await prisma.tutorProfile.update({
+      where: { id: existingProfile.id },
+      data: {
+        status: 'PENDING_REVIEW',
+        statusReason: null,
+        submittedAt: new Date()
+      },
+      include: {
+        categories: true,
+        subjects: ownSubjectsSelect()
+      }
+    });
+
+    res.status(200).json({
+      message: 'Profile submitted for review',
+      profile
+    });
+  } catch (error) {
+    console.error('Submit profile error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to submit profile'
+    });
+  }
+};
+
 /**
  * Update tutor availability
  * PUT /api/tutors/availability
@@ -382,35 +1258,92 @@ export const updateAvailability = async (
 
     // Validate request body
     const validatedData = updateAvailabilitySchema.parse(req.body);
-    const { availability } = validatedData;
+    const { timezone, weekly, overrides } = validatedData.availability;
 
     // Check if tutor profile exists
     const existingProfile = await prisma.tutorProfile.findUnique({
       where: { userId: req.user.userId }
     });
 
-    let profile;
+    const userId = req.user.userId;
 
-    if (existingProfile) {
-      // Update existing profile
-      profile = await prisma.tutorProfile.update({
-        where: { userId: req.user.userId },
-        data: { availability }
+    // Replace the whole availability set atomically
+    const profile = await prisma.$transaction(async (tx) => {
+      let tutorProfile;
+
+      if (existingProfile) {
+        // Update existing profile
+        tutorProfile = await tx.tutorProfile.update({
+          where: { userId },
+          data: { ...(timezone && { timezone }) }
+        });
+      } else {
+        // Create new profile with availability
+        tutorProfile = await tx.tutorProfile.create({
+          data: {
+            userId,
+            hourlyRate: 0,
+            ...(timezone && { timezone })
+          }
+        });
+      }
+
+      await tx.availabilityRule.deleteMany({
+        where: { tutorProfileId: tutorProfile.id }
       });
-    } else {
-      // Create new profile with availability
-      profile = await prisma.tutorProfile.create({
-        data: {
-          userId: req.user.userId,
-          hourlyRate: 0,
-          availability
+      await tx.availabilityOverride.deleteMany({
+        where: { tutorProfileId: tutorProfile.id }
+      });
+
+      await tx.availabilityRule.createMany({
+        data: weekly.map((slot) => ({
+          tutorProfileId: tutorProfile.id,
+          dayOfWeek: slot.dayOfWeek,
+          startTime: slot.startTime,
+          endTime: slot.endTime
+        }))
+      });
+
+      // A date without slots is stored as a single row without times (blocked day)
+      await tx.availabilityOverride.createMany({
+        data: overrides.flatMap((override) =>
+          override.slots.length > 0
+            ? override.slots.map((slot) => ({
+                tutorProfileId: tutorProfile.id,
+                date: parseDateOnly(override.date),
+                startTime: slot.startTime,
+                endTime: slot.endTime
+              }))
+            : [
+                {
+                  tutorProfileId: tutorProfile.id,
+                  date: parseDateOnly(override.date)
+                }
+              ]
+        )
+      });
+
+      return tx.tutorProfile.findUniqueOrThrow({
+        where: { id: tutorProfile.id },
+        include: {
+          availabilityRules: availabilitySelect().availabilityRules,
+          availabilityOverrides: availabilitySelect().availabilityOverrides
         }
       });
-    }
+    });
+
+    const { availabilityRules, availabilityOverrides, ...tutorProfile } = profile;
 
     res.status(200).json({
       message: 'Availability updated successfully',
-      profile
+      profile: {
+        ...tutorProfile,
+        availability: normalizeAvailability(
+          profile.timezone,
+          availabilityRules,
+          availabilityOverrides
+        )
+      }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -2,13 +2,20 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { hashPassword, comparePassword } from '../utils/password';
+import { isValidRegion, normalizeRegion } from '../utils/platformFees';
 
 const prisma = new PrismaClient();
 
 // Validation schemas
 const updateProfileSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
-  email: z.string().email('Invalid email format')
+  email: z.string().email('Invalid email format'),
+  region: z
+    .string()
+    .transform(normalizeRegion)
+    .refine(isValidRegion, 'Region must be an ISO country code (e.g. GB or US-CA)')
+    .nullable()
+    .optional() // null clears it
 });
 
 const updatePasswordSchema = z.object({
@@ -17,7 +24,7 @@ const updatePasswordSchema = z.object({
 });
 
 /**
- * Update user profile (name and email)
+ * Update user profile (name, email and tax region)
  * PUT /api/users/profile
  * Requires authentication
  */
@@ -58,7 +65,8 @@ export const updateProfile = async (
       where: { id: req.user.userId },
       data: {
         name: validatedData.name,
-        email: validatedData.email
+        email: validatedData.email,
+        region: validatedData.region
       },
       select: {
         id: true,
@@ -66,6 +74,7 @@ export const updateProfile = async (
         name: true,
         role: true,
         status: true,
+        region: true,
         createdAt: true,
         updatedAt: true
       }
@@ -1,10 +1,13 @@
+// Load environment variables before any module reads its settings
+import 'dotenv/config';
 import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import apiRoutes from './routes/index';
+import { startBookingScheduler } from './jobs/bookingScheduler';
+import { validatePaymentProvider } from './utils/paymentProvider';
 
-// Load environment variables
-dotenv.config();
+// Stop here rather than take bookings without a usable payment provider
+validatePaymentProvider();
 
 const app: Express = express();
 const PORT = process.env.PORT || 5000;
@@ -58,7 +61,10 @@ app.get('/api', (req: Request, res: Response) => {
       bookings: '/api/bookings',
       reviews: '/api/reviews',
       categories: '/api/categories',
+      subjects: '/api/subjects',
       admin: '/api/admin',
+      payments: '/api/payments',
+      packages: '/api/packages',
       errors: '/api/errors'
     }
   });
@@ -89,6 +95,9 @@ app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📍 Environment: ${process.env.NODE_ENV}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  // Expire stale requests and auto-complete past sessions in the background
+  startBookingScheduler();
 });
 
 export default app;
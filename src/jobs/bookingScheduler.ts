@@ -0,0 +1,321 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getBookingEnd, isSerializationFailure } from '../utils/bookingConflicts';
+import {
+  BookingAction,
+  validateTransition,
+  transitionBooking
+} from '../utils/bookingStateMachine';
+import { NO_SHOW_CONTEST_WINDOW_HOURS, resolveNoShowReport } from '../utils/attendance';
+import { payForBookings } from '../utils/bookingPayments';
+import { capturePackagePayment } from '../utils/packagePayments';
+import { sendPendingProviderOperations } from '../utils/ledger';
+import { PaymentProviderError } from '../utils/paymentProvider';
+import { readNumberEnv } from '../utils/env';
+
+const prisma = new PrismaClient();
+
+// How often the scheduler runs
+const SCHEDULER_INTERVAL_MS = readNumberEnv('BOOKING_SCHEDULER_INTERVAL_MS', 5 * 60 * 1000, {
+  min: 1000
+});
+
+// Unanswered requests expire this many minutes before the session starts (0 = at start time)
+const PENDING_EXPIRY_LEAD_MINUTES = readNumberEnv('BOOKING_PENDING_EXPIRY_LEAD_MINUTES', 0, {
+  min: 0
+});
+
+// Confirmed sessions are completed automatically this many hours after they end (0 = right away)
+const AUTO_COMPLETE_AFTER_HOURS = readNumberEnv('BOOKING_AUTO_COMPLETE_AFTER_HOURS', 24, {
+  min: 0
+});
+
+// Payments still pending this many minutes after the booking or purchase was made are retried
+// (the request that made it normally charges it straight away)
+const PAYMENT_RETRY_AFTER_MINUTES = 5;
+
+// Maximum number of bookings processed per action in one run
+const BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Apply a system action to one booking, re-checking its state inside the transaction
+ * so that a concurrent user action (or another server instance) wins cleanly.
+ * Failures are logged so that one broken booking does not stop the rest of the run.
+ * @returns True if the booking was transitioned
+ */
+const applySystemAction = async (
+  bookingId: string,
+  action: BookingAction,
+  reason: string
+): Promise<boolean> => {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const booking = await tx.booking.findUnique({ where: { id: bookingId } });
+
+        if (!booking || validateTransition(booking, action, 'system')) {
+          return false;
+        }
+
+        await transitionBooking(tx, booking, action, null, reason);
+        return true;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    // Booking changed concurrently; it is picked up again on the next run if still due
+    if (!isSerializationFailure(error)) {
+      console.error(`Booking scheduler: failed to ${action} booking ${bookingId}:`, error);
+    }
+    return false;
+  }
+};
+
+/**
+ * Expire PENDING bookings the tutor never answered
+ * @param now - Current time
+ * @returns Number of bookings expired
+ */
+const expireStalePendingBookings = async (now: Date): Promise<number> => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: 'PENDING',
+      dateTime: {
+        lte: new Date(now.getTime() + PENDING_EXPIRY_LEAD_MINUTES * 60 * 1000)
+      }
+    },
+    select: { id: true },
+    orderBy: { dateTime: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let expired = 0;
+  for (const booking of bookings) {
+    if (await applySystemAction(booking.id, 'expire', 'Tutor did not respond before the session')) {
+      expired++;
+    }
+  }
+
+  return expired;
+};
+
+/**
+ * Complete CONFIRMED sessions that ended long enough ago
+ * @param now - Current time
+ * @returns Number of bookings completed
+ */
+const autoCompletePastSessions = async (now: Date): Promise<number> => {
+  const cutoff = new Date(now.getTime() - AUTO_COMPLETE_AFTER_HOURS * 60 * 60 * 1000);
+
+  // Sessions that started before the cutoff; the exact end time is checked below
+  const candidates = await prisma.booking.findMany({
+    where: {
+      status: 'CONFIRMED',
+      dateTime: { lte: cutoff },
+      // Unpaid sessions wait for the payment (or its failure, which cancels them)
+      paymentStatus: { not: 'PENDING' },
+      // Reported no-shows are settled by the report, not auto-completed; a report dismissed
+      // while the payment was pending leaves the session to be completed here
+      OR: [{ noShowReport: { is: null } }, { noShowReport: { status: 'DISMISSED' } }]
+    },
+    select: { id: true, dateTime: true, duration: true },
+    orderBy: { dateTime: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let completed = 0;
+  for (const booking of candidates) {
+    if (getBookingEnd(booking.dateTime, booking.duration) > cutoff) {
+      continue;
+    }
+
+    if (await applySystemAction(booking.id, 'complete', 'Automatically completed after the session ended')) {
+      completed++;
+    }
+  }
+
+  return completed;
+};
+
+/**
+ * Uphold no-show reports the absent party did not contest in time
+ * @param now - Current time
+ * @returns Number of reports upheld
+ */
+const upholdUncontestedNoShows = async (now: Date): Promise<number> => {
+  const reports = await prisma.noShowReport.findMany({
+    where: {
+      status: 'REPORTED',
+      createdAt: {
+        lte: new Date(now.getTime() - NO_SHOW_CONTEST_WINDOW_HOURS * 60 * 60 * 1000)
+      }
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let upheld = 0;
+  for (const { id } of reports) {
+    try {
+      const resolved = await prisma.$transaction(
+        async (tx) => {
+          const report = await tx.noShowReport.findUnique({
+            where: { id },
+            include: { booking: true }
+          });
+
+          // Contested in the meantime
+          if (!report || report.status !== 'REPORTED') {
+            return false;
+          }
+
+          const { booking, ...reportFields } = report;
+          await resolveNoShowReport(tx, reportFields, booking, 'uphold', null);
+          return true;
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      if (resolved) upheld++;
+    } catch (error) {
+      if (!isSerializationFailure(error)) {
+        console.error(`Booking scheduler: failed to uphold no-show report ${id}:`, error);
+      }
+    }
+  }
+
+  return upheld;
+};
+
+/**
+ * Charge bookings and package purchases whose payment was left pending, e.g. because the
+ * server stopped between saving them and charging them. Declined bookings are cancelled;
+ * declined purchases are marked failed.
+ * @param now - Current time
+ * @returns Number of bookings and purchases charged
+ */
+const retryPendingPayments = async (now: Date): Promise<number> => {
+  const retryBefore = new Date(now.getTime() - PAYMENT_RETRY_AFTER_MINUTES * 60 * 1000);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      paymentStatus: 'PENDING',
+      createdAt: { lte: retryBefore }
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let paid = 0;
+  for (const booking of bookings) {
+    try {
+      const [status] = await payForBookings(prisma, [booking.id]);
+      if (status === 'PAID') paid++;
+    } catch (error) {
+      // Declined bookings were cancelled; anything else is retried on the next run
+      if (!(error instanceof PaymentProviderError)) {
+        console.error(`Booking scheduler: failed to charge booking ${booking.id}:`, error);
+      }
+    }
+  }
+
+  const purchases = await prisma.packagePurchase.findMany({
+    where: {
+      paymentStatus: 'PENDING',
+      createdAt: { lte: retryBefore }
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  for (const purchase of purchases) {
+    try {
+      const { paymentStatus } = await capturePackagePayment(prisma, purchase.id);
+      if (paymentStatus === 'PAID') paid++;
+    } catch (error) {
+      if (!(error instanceof PaymentProviderError)) {
+        console.error(
+          `Booking scheduler: failed to charge package purchase ${purchase.id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  return paid;
+};
+
+/**
+ * Expire reschedule proposals that were not answered in time
+ * @param now - Current time
+ * @returns Number of proposals expired
+ */
+const expireRescheduleProposals = async (now: Date): Promise<number> => {
+  const result = await prisma.rescheduleProposal.updateMany({
+    where: {
+      status: 'PENDING',
+      expiresAt: { lte: now }
+    },
+    data: { status: 'EXPIRED' }
+  });
+
+  return result.count;
+};
+
+/**
+ * Run one pass of booking maintenance
+ */
+export const runBookingMaintenance = async (): Promise<void> => {
+  // Skip if the previous run is still in progress
+  if (running) return;
+  running = true;
+
+  try {
+    const now = new Date();
+    const payments = await retryPendingPayments(now);
+    const expired = await expireStalePendingBookings(now);
+    const completed = await autoCompletePastSessions(now);
+    const noShows = await upholdUncontestedNoShows(now);
+    const proposals = await expireRescheduleProposals(now);
+    // Refunds from the transitions above, and any a request left unsent
+    const sent = await sendPendingProviderOperations(prisma, {}, BATCH_SIZE);
+
+    if (payments || expired || completed || noShows || proposals || sent) {
+      console.log(
+        `⏱️  Booking scheduler: ${payments} pending payments charged, ${expired} expired, ${completed} completed, ${noShows} no-shows upheld, ${proposals} reschedule proposals expired, ${sent} refunds and payouts sent`
+      );
+    }
+  } catch (error) {
+    console.error('Booking scheduler error:', error);
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Start the periodic booking scheduler
+ * Disabled when BOOKING_SCHEDULER_ENABLED is "false"
+ */
+export const startBookingScheduler = (): void => {
+  if (timer || process.env.BOOKING_SCHEDULER_ENABLED === 'false') return;
+
+  timer = setInterval(runBookingMaintenance, SCHEDULER_INTERVAL_MS);
+  runBookingMaintenance();
+
+  console.log(`⏱️  Booking scheduler running every ${SCHEDULER_INTERVAL_MS / 1000}s`);
+};
+
+/**
+ * Stop the periodic booking scheduler
+ */
+export const stopBookingScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -3,7 +3,23 @@ import {
   getAllUsers,
   updateUserStatus,
   getAllBookings,
-  getStats
+  getStats,
+  getNoShowReports,
+  resolveNoShow,
+  getLedgerSummary,
+  getPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+  getCommissionRules,
+  createCommissionRule,
+  updateCommissionRule,
+  getTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  getTutorProfiles,
+  reviewTutorProfile,
+  mergeCategory,
+  getAuditLogs
 } from '../controllers/adminController';
 import { authMiddleware } from '../middleware/auth';
 import { isAdmin } from '../middleware/roleGuard';
@@ -37,4 +53,100 @@ router.get('/bookings', getAllBookings);
  */
 router.get('/stats', getStats);
 
+/**
+ * GET /api/admin/no-shows
+ * Get no-show reports with filters
+ */
+router.get('/no-shows', getNoShowReports);
+
+/**
+ * PATCH /api/admin/no-shows/:id
+ * Uphold or dismiss a no-show report
+ */
+router.patch('/no-shows/:id', resolveNoShow);
+
+/**
+ * GET /api/admin/ledger
+ * Get the balance of every payment ledger account
+ */
+router.get('/ledger', getLedgerSummary);
+
+/**
+ * GET /api/admin/promo-codes
+ * Get promo codes with usage
+ */
+router.get('/promo-codes', getPromoCodes);
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a promo code
+ */
+router.post('/promo-codes', createPromoCode);
+
+/**
+ * PATCH /api/admin/promo-codes/:id
+ * Update limits, expiry or deactivate a promo code
+ */
+router.patch('/promo-codes/:id', updatePromoCode);
+
+/**
+ * GET /api/admin/commission-rules
+ * Get commission rules and the default rate
+ */
+router.get('/commission-rules', getCommissionRules);
+
+/**
+ * POST /api/admin/commission-rules
+ * Create a global, category or new-tutor commission rule
+ */
+router.post('/commission-rules', createCommissionRule);
+
+/**
+ * PATCH /api/admin/commission-rules/:id
+ * Update the rate or deactivate a commission rule
+ */
+router.patch('/commission-rules/:id', updateCommissionRule);
+
+/**
+ * GET /api/admin/tax-rates
+ * Get tax rates by student region
+ */
+router.get('/tax-rates', getTaxRates);
+
+/**
+ * POST /api/admin/tax-rates
+ * Create the tax rate of a region
+ */
+router.post('/tax-rates', createTaxRate);
+
+/**
+ * PATCH /api/admin/tax-rates/:id
+ * Update or deactivate a region's tax rate
+ */
+router.patch('/tax-rates/:id', updateTaxRate);
+
+/**
+ * GET /api/admin/tutors
+ * Get tutor profiles by approval status (review queue by default)
+ */
+router.get('/tutors', getTutorProfiles);
+
+/**
+ * PATCH /api/admin/tutors/:id/review
+ * Approve, reject, suspend or reinstate a tutor profile
+ */
+router.patch('/tutors/:id/review', reviewTutorProfile);
+
+/**
+ * POST /api/admin/categories/:id/merge
+ * Merge a duplicate category into another
+ */
+router.post('/categories/:id/merge', mergeCategory);
+
+/**
+ * GET /api/admin/audit-logs
+ * Get the audit trail of admin operations
+ */
+router.get('/audit-logs', getAuditLogs);
+
 export default router;
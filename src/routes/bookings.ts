@@ -2,8 +2,17 @@ import { Router } from 'express';
 import {
   createBooking,
   getBookings,
+  getStudentSummary,
   getBookingById,
-  updateBookingStatus
+  getBookingHistory,
+  getBookingInvoice,
+  updateBookingStatus,
+  createBookingSeries,
+  getBookingSeriesById,
+  updateBookingSeriesStatus,
+  proposeReschedule,
+  respondToReschedule,
+  updateAttendance
 } from '../controllers/bookingController';
 import { authMiddleware } from '../middleware/auth';
 import { isStudent } from '../middleware/roleGuard';
@@ -17,6 +26,27 @@ const router = Router();
  */
 router.post('/', authMiddleware, isStudent, createBooking);
 
+/**
+ * POST /api/bookings/series
+ * Create a recurring booking series (e.g. weekly lessons)
+ * Requires authentication and STUDENT role
+ */
+router.post('/series', authMiddleware, isStudent, createBookingSeries);
+
+/**
+ * GET /api/bookings/series/:id
+ * Get a booking series with its occurrences
+ * Requires authentication
+ */
+router.get('/series/:id', authMiddleware, getBookingSeriesById);
+
+/**
+ * PATCH /api/bookings/series/:id/status
+ * Approve/reject/cancel all upcoming occurrences of a series
+ * Requires authentication
+ */
+router.patch('/series/:id/status', authMiddleware, updateBookingSeriesStatus);
+
 /**
  * GET /api/bookings
  * Get user's bookings (role-specific)
@@ -24,6 +54,13 @@ router.post('/', authMiddleware, isStudent, createBooking);
  */
 router.get('/', authMiddleware, getBookings);
 
+/**
+ * GET /api/bookings/summary
+ * Get the student's learning summary (hours, upcoming sessions, pending reviews, spending)
+ * Requires authentication and STUDENT role
+ */
+router.get('/summary', authMiddleware, isStudent, getStudentSummary);
+
 /**
  * GET /api/bookings/:id
  * Get single booking by ID
@@ -31,6 +68,20 @@ router.get('/', authMiddleware, getBookings);
  */
 router.get('/:id', authMiddleware, getBookingById);
 
+/**
+ * GET /api/bookings/:id/history
+ * Get the status change history of a booking
+ * Requires authentication
+ */
+router.get('/:id/history', authMiddleware, getBookingHistory);
+
+/**
+ * GET /api/bookings/:id/invoice
+ * Get the invoice of a completed booking (?format=html|pdf)
+ * Requires authentication
+ */
+router.get('/:id/invoice', authMiddleware, getBookingInvoice);
+
 /**
  * PATCH /api/bookings/:id/status
  * Update booking status (complete/cancel)
@@ -38,4 +89,25 @@ router.get('/:id', authMiddleware, getBookingById);
  */
 router.patch('/:id/status', authMiddleware, updateBookingStatus);
 
+/**
+ * POST /api/bookings/:id/reschedule
+ * Propose a new time for a confirmed booking
+ * Requires authentication
+ */
+router.post('/:id/reschedule', authMiddleware, proposeReschedule);
+
+/**
+ * PATCH /api/bookings/:id/reschedule
+ * Accept/decline/withdraw the pending reschedule proposal
+ * Requires authentication
+ */
+router.patch('/:id/reschedule', authMiddleware, respondToReschedule);
+
+/**
+ * PATCH /api/bookings/:id/attendance
+ * Report or contest a no-show
+ * Requires authentication
+ */
+router.patch('/:id/attendance', authMiddleware, updateAttendance);
+
 export default router;
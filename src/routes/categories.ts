@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import {
   getCategories,
+  getCategoryBySlug,
+  getCategoryStats,
   createCategory,
   updateCategory,
   deleteCategory
@@ -12,11 +14,25 @@ const router = Router();
 
 /**
  * GET /api/categories
- * Get all categories
+ * Get all categories as a flat list, or nested with ?format=tree
  * Public route
  */
 router.get('/', getCategories);
 
+/**
+ * GET /api/categories/:slug
+ * Get a category with its subcategories (former slugs redirect)
+ * Public route
+ */
+router.get('/:slug', getCategoryBySlug);
+
+/**
+ * GET /api/categories/:slug/stats
+ * Get marketplace stats for a category and its subcategories
+ * Public route
+ */
+router.get('/:slug/stats', getCategoryStats);
+
 /**
  * POST /api/categories
  * Create a new category
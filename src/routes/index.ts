@@ -4,9 +4,12 @@ import tutorRoutes from './tutors';
 import bookingRoutes from './bookings';
 import reviewRoutes from './reviews';
 import categoryRoutes from './categories';
+import subjectRoutes from './subjects';
 import adminRoutes from './admin';
 import errorRoutes from './errors';
 import userRoutes from './users';
+import paymentRoutes from './payments';
+import packageRoutes from './packages';
 
 const router = Router();
 
@@ -16,9 +19,12 @@ router.use('/tutors', tutorRoutes);
 router.use('/bookings', bookingRoutes);
 router.use('/reviews', reviewRoutes);
 router.use('/categories', categoryRoutes);
+router.use('/subjects', subjectRoutes);
 router.use('/admin', adminRoutes);
 router.use('/errors', errorRoutes);
 router.use('/users', userRoutes);
+router.use('/payments', paymentRoutes);
+router.use('/packages', packageRoutes);
 
 // Health check for API
 router.get('/health', (req, res) => {
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import {
+  createPackage,
+  updatePackage,
+  getTutorPackages,
+  purchasePackage,
+  getCredits
+} from '../controllers/packageController';
+import { authMiddleware } from '../middleware/auth';
+import { isStudent, isTutor } from '../middleware/roleGuard';
+
+const router = Router();
+
+/**
+ * POST /api/packages
+ * Create a lesson package
+ * Requires authentication and TUTOR role
+ */
+router.post('/', authMiddleware, isTutor, createPackage);
+
+/**
+ * GET /api/packages/credits
+ * Get lesson credit balances (student: own credits, tutor: students' credits)
+ * Requires authentication
+ */
+router.get('/credits', authMiddleware, getCredits);
+
+/**
+ * GET /api/packages/tutor/:tutorId
+ * Get a tutor's lesson packages
+ * Public route
+ */
+router.get('/tutor/:tutorId', getTutorPackages);
+
+/**
+ * PATCH /api/packages/:id
+ * Update or deactivate a lesson package
+ * Requires authentication and TUTOR role
+ */
+router.patch('/:id', authMiddleware, isTutor, updatePackage);
+
+/**
+ * POST /api/packages/:id/purchase
+ * Buy a lesson package
+ * Requires authentication and STUDENT role
+ */
+router.post('/:id/purchase', authMiddleware, isStudent, purchasePackage);
+
+export default router;
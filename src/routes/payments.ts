@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import {
+  getBookingPayments,
+  getTutorBalance,
+  requestPayout
+} from '../controllers/paymentController';
+import { authMiddleware } from '../middleware/auth';
+import { isTutor } from '../middleware/roleGuard';
+
+const router = Router();
+
+/**
+ * GET /api/payments/balance
+ * Get the tutor's payable balance and recent ledger activity
+ * Requires authentication and TUTOR role
+ */
+router.get('/balance', authMiddleware, isTutor, getTutorBalance);
+
+/**
+ * POST /api/payments/payouts
+ * Pay out the tutor's balance
+ * Requires authentication and TUTOR role
+ */
+router.post('/payouts', authMiddleware, isTutor, requestPayout);
+
+/**
+ * GET /api/payments/bookings/:id
+ * Get the charges, refunds and releases of a booking
+ * Requires authentication
+ */
+router.get('/bookings/:id', authMiddleware, getBookingPayments);
+
+export default router;
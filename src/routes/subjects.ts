@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import {
+  getSubjects,
+  getPendingSubjects,
+  createSubject,
+  updateSubject,
+  mergeSubject,
+  deleteSubject
+} from '../controllers/subjectController';
+import { authMiddleware } from '../middleware/auth';
+import { isAdmin } from '../middleware/roleGuard';
+
+const router = Router();
+
+/**
+ * GET /api/subjects
+ * Get approved subjects, optionally for one category
+ * Public route
+ */
+router.get('/', getSubjects);
+
+/**
+ * GET /api/subjects/pending
+ * Get subjects suggested by tutors that are waiting for review
+ * Requires authentication and ADMIN role
+ */
+router.get('/pending', authMiddleware, isAdmin, getPendingSubjects);
+
+/**
+ * POST /api/subjects
+ * Create a subject
+ * Requires authentication and ADMIN role
+ */
+router.post('/', authMiddleware, isAdmin, createSubject);
+
+/**
+ * PUT /api/subjects/:id
+ * Rename, categorize or approve a subject
+ * Requires authentication and ADMIN role
+ */
+router.put('/:id', authMiddleware, isAdmin, updateSubject);
+
+/**
+ * POST /api/subjects/:id/merge
+ * Merge a duplicate subject into another
+ * Requires authentication and ADMIN role
+ */
+router.post('/:id/merge', authMiddleware, isAdmin, mergeSubject);
+
+/**
+ * DELETE /api/subjects/:id
+ * Delete a subject (e.g. reject a suggestion)
+ * Requires authentication and ADMIN role
+ */
+router.delete('/:id', authMiddleware, isAdmin, deleteSubject);
+
+export default router;
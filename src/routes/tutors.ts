@@ -2,8 +2,11 @@ import { Router } from 'express';
 import {
   getTutors,
   getTutorById,
+  getTutorSlots,
   getProfile,
+  getEarnings,
   updateProfile,
+  submitProfile,
   updateAvailability
 } from '../controllers/tutorController';
 import { authMiddleware } from '../middleware/auth';
@@ -13,7 +16,7 @@ const router = Router();
 
 /**
  * GET /api/tutors
- * Get all tutors with optional filters
+ * Get tutors with optional filters, sorting and pagination
  * Public route
  */
 router.get('/', getTutors);
@@ -25,6 +28,13 @@ router.get('/', getTutors);
  */
 router.get('/profile', authMiddleware, isTutor, getProfile);
 
+/**
+ * GET /api/tutors/earnings
+ * Get current tutor's earnings, grouped by day/week/month
+ * Requires authentication and TUTOR role
+ */
+router.get('/earnings', authMiddleware, isTutor, getEarnings);
+
 /**
  * GET /api/tutors/:id
  * Get single tutor by ID with reviews
@@ -32,6 +42,13 @@ router.get('/profile', authMiddleware, isTutor, getProfile);
  */
 router.get('/:id', getTutorById);
 
+/**
+ * GET /api/tutors/:id/slots
+ * Get open bookable time slots for a tutor
+ * Public route
+ */
+router.get('/:id/slots', getTutorSlots);
+
 /**
  * PUT /api/tutors/profile
  * Update tutor profile
@@ -39,6 +56,13 @@ router.get('/:id', getTutorById);
  */
 router.put('/profile', authMiddleware, isTutor, updateProfile);
 
+/**
+ * POST /api/tutors/profile/submit
+ * Submit tutor profile for admin review
+ * Requires authentication and TUTOR role
+ */
+router.post('/profile/submit', authMiddleware, isTutor, submitProfile);
+
 /**
  * PUT /api/tutors/availability
  * Update tutor availability
@@ -6,7 +6,7 @@ const router = Router();
 
 /**
  * PUT /api/users/profile
- * Update user profile (name and email)
+ * Update user profile (name, email and tax region)
  * Requires authentication
  */
 router.put('/profile', authMiddleware, updateProfile);
@@ -0,0 +1,116 @@
+import { Prisma, PrismaClient, Booking, NoShowReport } from '@prisma/client';
+import { validateTransition, transitionBooking, recordBookingEvent } from './bookingStateMachine';
+import { readNumberEnv } from './env';
+
+// How long after a session ends a no-show can still be reported
+export const NO_SHOW_REPORT_WINDOW_HOURS = readNumberEnv('NO_SHOW_REPORT_WINDOW_HOURS', 48, {
+  min: 0
+});
+
+// How long the absent party has to contest a report before it is upheld automatically
+export const NO_SHOW_CONTEST_WINDOW_HOURS = readNumberEnv('NO_SHOW_CONTEST_WINDOW_HOURS', 48, {
+  min: 0
+});
+
+export interface ReliabilityStats {
+  sessions: number; // Sessions that took place or were missed (COMPLETED + NO_SHOW)
+  noShows: number; // Upheld no-shows where the user was absent
+  reliability: number | null; // Share of sessions attended, null without history
+}
+
+/**
+ * Compute attendance reliability for a set of users
+ * @param client - Prisma client
+ * @param userIds - Users to compute stats for
+ * @returns Stats keyed by user ID
+ */
+export const getReliabilityStats = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  userIds: string[]
+): Promise<Map<string, ReliabilityStats>> => {
+  const stats = new Map<string, ReliabilityStats>();
+  if (userIds.length === 0) return stats;
+
+  const heldStatuses: Prisma.EnumBookingStatusFilter = { in: ['COMPLETED', 'NO_SHOW'] };
+
+  const [asStudent, asTutor, noShows] = await Promise.all([
+    client.booking.groupBy({
+      by: ['studentId'],
+      where: { studentId: { in: userIds }, status: heldStatuses },
+      _count: true
+    }),
+    client.booking.groupBy({
+      by: ['tutorId'],
+      where: { tutorId: { in: userIds }, status: heldStatuses },
+      _count: true
+    }),
+    client.noShowReport.groupBy({
+      by: ['absentUserId'],
+      where: { absentUserId: { in: userIds }, status: 'UPHELD' },
+      _count: true
+    })
+  ]);
+
+  userIds.forEach((userId) => {
+    const sessions =
+      (asStudent.find((row) => row.studentId === userId)?._count || 0) +
+      (asTutor.find((row) => row.tutorId === userId)?._count || 0);
+    const missed = noShows.find((row) => row.absentUserId === userId)?._count || 0;
+
+    stats.set(userId, {
+      sessions,
+      noShows: missed,
+      reliability: sessions > 0 ? (sessions - missed) / sessions : null
+    });
+  });
+
+  return stats;
+};
+
+/**
+ * Uphold or dismiss a no-show report and update the booking accordingly.
+ * Upheld reports move the booking to NO_SHOW; dismissed reports complete it if still confirmed.
+ * @param tx - Prisma transaction client
+ * @param report - Report to resolve (REPORTED or CONTESTED)
+ * @param booking - Booking the report belongs to
+ * @param decision - 'uphold' or 'dismiss'
+ * @param resolvedById - Deciding admin, or null when resolved automatically
+ * @returns Updated report
+ */
+export const resolveNoShowReport = async (
+  tx: Prisma.TransactionClient,
+  report: NoShowReport,
+  booking: Booking,
+  decision: 'uphold' | 'dismiss',
+  resolvedById: string | null
+): Promise<NoShowReport> => {
+  const actor = resolvedById ? 'admin' : 'system';
+  const reason = resolvedById
+    ? `No-show report ${decision === 'uphold' ? 'upheld' : 'dismissed'} by admin`
+    : 'No-show report was not contested in time';
+
+  if (decision === 'uphold' && !validateTransition(booking, 'mark_no_show', actor)) {
+    await transitionBooking(tx, booking, 'mark_no_show', resolvedById, reason);
+  } else if (decision === 'dismiss' && !validateTransition(booking, 'complete', actor)) {
+    await transitionBooking(tx, booking, 'complete', resolvedById, reason);
+  } else {
+    // Status unchanged; still keep the decision in the booking's history
+    await recordBookingEvent(tx, {
+      bookingId: booking.id,
+      actorId: resolvedById,
+      action: decision === 'uphold' ? 'uphold_no_show' : 'dismiss_no_show',
+      fromStatus: booking.status,
+      toStatus: booking.status,
+      reason
+    });
+  }
+
+  return tx.noShowReport.update({
+    where: { id: report.id },
+    data: {
+      status: decision === 'uphold' ? 'UPHELD' : 'DISMISSED',
+      resolvedAt: new Date(),
+      resolvedById
+    }
+  });
+};
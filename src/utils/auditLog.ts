@@ -0,0 +1,21 @@
+import { Prisma } from '@prisma/client';
+
+interface AuditLogInput {
+  actorId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Append an entry to the admin audit trail
+ * @param tx - Prisma transaction client (record in the same transaction as the change)
+ * @param entry - What was done, by whom and to which entity
+ */
+export const recordAuditLog = async (
+  tx: Prisma.TransactionClient,
+  entry: AuditLogInput
+): Promise<void> => {
+  await tx.auditLog.create({ data: entry });
+};
@@ -0,0 +1,318 @@
+import { AvailabilityRule, AvailabilityOverride } from '@prisma/client';
+
+export interface TimeWindow {
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+}
+
+export interface WeeklyAvailability extends TimeWindow {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface DateOverride {
+  date: string; // "YYYY-MM-DD"
+  slots: TimeWindow[]; // Empty = unavailable the whole day
+}
+
+export interface NormalizedAvailability {
+  timezone: string;
+  weekly: WeeklyAvailability[];
+  overrides: DateOverride[];
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ * @param timezone - Timezone name, e.g. "Europe/Berlin"
+ * @returns True if the runtime recognizes the timezone
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Format a DATE column value as "YYYY-MM-DD"
+ * @param date - Date as returned by Prisma for a @db.Date field
+ * @returns ISO date string
+ */
+export const formatDateOnly = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Parse a "YYYY-MM-DD" string into a value for a @db.Date field
+ * @param date - ISO date string
+ * @returns Date at UTC midnight
+ */
+export const parseDateOnly = (date: string): Date => {
+  return new Date(`${date}T00:00:00.000Z`);
+};
+
+/**
+ * Convert stored availability rows into the shape shared with the frontend
+ * @param timezone - Tutor's timezone
+ * @param rules - Weekly availability rows
+ * @param overrides - Date-specific override rows
+ * @returns Normalized availability, sorted by day/date and start time
+ */
+export const normalizeAvailability = (
+  timezone: string,
+  rules: Pick<AvailabilityRule, 'dayOfWeek' | 'startTime' | 'endTime'>[],
+  overrides: Pick<AvailabilityOverride, 'date' | 'startTime' | 'endTime'>[]
+): NormalizedAvailability => {
+  const weekly = rules
+    .map((rule) => ({
+      dayOfWeek: rule.dayOfWeek,
+      startTime: rule.startTime,
+      endTime: rule.endTime
+    }))
+    .sort(
+      (a, b) =>
+        a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime)
+    );
+
+  // Group override rows by date; rows without times only mark the date as blocked
+  const overridesByDate = new Map<string, TimeWindow[]>();
+  overrides.forEach((override) => {
+    const date = formatDateOnly(override.date);
+    const slots = overridesByDate.get(date) || [];
+    if (override.startTime && override.endTime) {
+      slots.push({ startTime: override.startTime, endTime: override.endTime });
+    }
+    overridesByDate.set(date, slots);
+  });
+
+  const normalizedOverrides = Array.from(overridesByDate.entries())
+    .map(([date, slots]) => ({
+      date,
+      slots: slots.sort((a, b) => a.startTime.localeCompare(b.startTime))
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    timezone,
+    weekly,
+    overrides: normalizedOverrides
+  };
+};
+
+/**
+ * Check whether any two time windows overlap
+ * @param windows - Time windows on the same day
+ * @returns True if at least one pair overlaps
+ */
+export const hasOverlappingWindows = (windows: TimeWindow[]): boolean => {
+  const sorted = [...windows].sort((a, b) =>
+    a.startTime.localeCompare(b.startTime)
+  );
+  return sorted.some(
+    (window, index) => index > 0 && window.startTime < sorted[index - 1].endTime
+  );
+};
+
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Get the calendar fields of an instant as seen in a timezone
+ * @param date - Instant to convert
+ * @param timezone - IANA timezone name
+ * @returns Local date ("YYYY-MM-DD"), time ("HH:mm") and day of week
+ */
+export const getZonedParts = (
+  date: Date,
+  timezone: string
+): { date: string; time: string; dayOfWeek: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value || '00';
+  const localDate = `${get('year')}-${get('month')}-${get('day')}`;
+
+  return {
+    date: localDate,
+    time: `${get('hour')}:${get('minute')}`,
+    dayOfWeek: parseDateOnly(localDate).getUTCDay()
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ */
+const getTimezoneOffset = (date: Date, timezone: string): number => {
+  const local = getZonedParts(date, timezone);
+  const localAsUtc = new Date(`${local.date}T${local.time}:00.000Z`).getTime();
+  const truncated = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return Math.round((localAsUtc - truncated) / MINUTE_MS);
+};
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ * @param date - Local date "YYYY-MM-DD"
+ * @param time - Local time "HH:mm"
+ * @param timezone - IANA timezone name
+ * @returns Corresponding instant
+ */
+export const zonedTimeToUtc = (
+  date: string,
+  time: string,
+  timezone: string
+): Date => {
+  const wallClock = new Date(`${date}T${time}:00.000Z`).getTime();
+  const firstGuess = wallClock - getTimezoneOffset(new Date(wallClock), timezone) * MINUTE_MS;
+  // Re-evaluate the offset at the guessed instant to account for DST transitions
+  const offset = getTimezoneOffset(new Date(firstGuess), timezone);
+  return new Date(wallClock - offset * MINUTE_MS);
+};
+
+/**
+ * Expand a tutor's availability into concrete UTC intervals within a range.
+ * Date overrides replace the weekly rules for their date.
+ * @param availability - Normalized availability
+ * @param from - Range start
+ * @param to - Range end
+ * @returns Merged intervals overlapping the range (not clipped), sorted by start
+ */
+export const getAvailabilityIntervals = (
+  availability: NormalizedAvailability,
+  from: Date,
+  to: Date
+): Interval[] => {
+  const { timezone } = availability;
+  const overridesByDate = new Map(
+    availability.overrides.map((override) => [override.date, override.slots])
+  );
+
+  // Walk local dates with a day of margin on each side so no window is missed
+  const firstDate = parseDateOnly(getZonedParts(from, timezone).date).getTime() - DAY_MS;
+  const lastDate = parseDateOnly(getZonedParts(to, timezone).date).getTime() + DAY_MS;
+
+  const intervals: Interval[] = [];
+
+  for (let day = firstDate; day <= lastDate; day += DAY_MS) {
+    const date = formatDateOnly(new Date(day));
+    const dayOfWeek = new Date(day).getUTCDay();
+    const windows =
+      overridesByDate.get(date) ||
+      availability.weekly.filter((slot) => slot.dayOfWeek === dayOfWeek);
+
+    windows.forEach((window) => {
+      const start = zonedTimeToUtc(date, window.startTime, timezone);
+      const end = zonedTimeToUtc(date, window.endTime, timezone);
+      if (start < to && end > from) {
+        intervals.push({ start, end });
+      }
+    });
+  }
+
+  // Merge touching or overlapping windows (e.g. 09:00-12:00 and 12:00-15:00)
+  return intervals
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = interval.end > last.end ? interval.end : last.end;
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, [] as Interval[]);
+};
+
+/**
+ * Check whether an interval lies entirely within one of the given intervals
+ * @param interval - Interval to test
+ * @param intervals - Containing intervals
+ * @returns True if fully contained
+ */
+export const isWithinIntervals = (
+  interval: Interval,
+  intervals: Interval[]
+): boolean => {
+  return intervals.some(
+    (candidate) =>
+      candidate.start <= interval.start && interval.end <= candidate.end
+  );
+};
+
+/**
+ * Generate bookable slots inside availability intervals, skipping busy time
+ * @param available - Availability intervals
+ * @param busy - Intervals already taken (e.g. existing bookings)
+ * @param duration - Slot length in minutes
+ * @param step - Distance between slot starts in minutes
+ * @param notBefore - Earliest allowed slot start
+ * @returns Free slots, sorted by start
+ */
+export const generateSlots = (
+  available: Interval[],
+  busy: Interval[],
+  duration: number,
+  step: number,
+  notBefore: Date
+): Interval[] => {
+  const slots: Interval[] = [];
+
+  available.forEach((window) => {
+    for (
+      let start = window.start.getTime();
+      start + duration * MINUTE_MS <= window.end.getTime();
+      start += step * MINUTE_MS
+    ) {
+      const slot = {
+        start: new Date(start),
+        end: new Date(start + duration * MINUTE_MS)
+      };
+
+      const overlapsBusy = busy.some(
+        (taken) => taken.start < slot.end && slot.start < taken.end
+      );
+
+      if (slot.start >= notBefore && !overlapsBusy) {
+        slots.push(slot);
+      }
+    }
+  });
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Compute weekly recurring occurrences that keep the same wall-clock time in a timezone
+ * @param first - First occurrence
+ * @param count - Number of occurrences (including the first)
+ * @param intervalWeeks - Weeks between occurrences
+ * @param timezone - Timezone whose local time is kept across DST changes
+ * @returns Occurrence start times
+ */
+export const getWeeklyOccurrences = (
+  first: Date,
+  count: number,
+  intervalWeeks: number,
+  timezone: string
+): Date[] => {
+  const local = getZonedParts(first, timezone);
+  const firstDay = parseDateOnly(local.date).getTime();
+
+  return Array.from({ length: count }, (_, index) => {
+    const date = formatDateOnly(new Date(firstDay + index * intervalWeeks * 7 * DAY_MS));
+    return zonedTimeToUtc(date, local.time, timezone);
+  });
+};
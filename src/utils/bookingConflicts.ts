@@ -0,0 +1,104 @@
+import { Prisma, BookingStatus } from '@prisma/client';
+
+// Bookings in these statuses hold the tutor's (and student's) time slot
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED'];
+
+// Upper bound on a single session length, in minutes.
+// Lets overlap queries use a bounded dateTime range instead of scanning every booking.
+export const MAX_BOOKING_DURATION = 480;
+
+export interface BookingConflict {
+  bookingId: string;
+  party: 'tutor' | 'student'; // Whose schedule the conflicting booking belongs to
+  status: BookingStatus;
+  start: string;
+  end: string;
+  duration: number;
+}
+
+interface ConflictQuery {
+  tutorId: string;
+  studentId: string;
+  dateTime: Date;
+  duration: number;
+  statuses?: BookingStatus[];
+  excludeBookingId?: string;
+  bufferMinutes?: number; // Gap the tutor requires around their other sessions
+}
+
+/**
+ * Compute the end time of a booking
+ * @param dateTime - Booking start time
+ * @param duration - Duration in minutes
+ * @returns End time
+ */
+export const getBookingEnd = (dateTime: Date, duration: number): Date => {
+  return new Date(dateTime.getTime() + duration * 60 * 1000);
+};
+
+/**
+ * Find bookings that overlap the requested time window for either the tutor or the student.
+ * Should be called inside a serializable transaction together with the write it guards.
+ * @param tx - Prisma transaction client
+ * @param query - Tutor, student and time window to check
+ * @returns List of conflicting bookings (empty if the slot is free)
+ */
+export const findBookingConflicts = async (
+  tx: Prisma.TransactionClient,
+  query: ConflictQuery
+): Promise<BookingConflict[]> => {
+  const start = query.dateTime;
+  const end = getBookingEnd(start, query.duration);
+  const buffer = (query.bufferMinutes || 0) * 60 * 1000;
+  const earliestStart = new Date(
+    start.getTime() - buffer - MAX_BOOKING_DURATION * 60 * 1000
+  );
+
+  const candidates = await tx.booking.findMany({
+    where: {
+      status: { in: query.statuses || ACTIVE_BOOKING_STATUSES },
+      OR: [{ tutorId: query.tutorId }, { studentId: query.studentId }],
+      dateTime: {
+        lt: new Date(end.getTime() + buffer),
+        gt: earliestStart
+      },
+      ...(query.excludeBookingId && {
+        id: { not: query.excludeBookingId }
+      })
+    },
+    orderBy: {
+      dateTime: 'asc'
+    }
+  });
+
+  return candidates
+    .filter((booking) => {
+      // The buffer only applies around the tutor's own sessions
+      const padding = booking.tutorId === query.tutorId ? buffer : 0;
+      return (
+        booking.dateTime.getTime() < end.getTime() + padding &&
+        getBookingEnd(booking.dateTime, booking.duration).getTime() >
+          start.getTime() - padding
+      );
+    })
+    .map((booking) => ({
+      bookingId: booking.id,
+      party: booking.tutorId === query.tutorId ? 'tutor' : 'student',
+      status: booking.status,
+      start: booking.dateTime.toISOString(),
+      end: getBookingEnd(booking.dateTime, booking.duration).toISOString(),
+      duration: booking.duration
+    }));
+};
+
+/**
+ * Check whether an error is a serialization failure from a concurrent transaction
+ * @param error - Error thrown by Prisma
+ * @returns True if the transaction should be retried by the client
+ */
+export const isSerializationFailure = (error: unknown): boolean => {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2034'
+  );
+};
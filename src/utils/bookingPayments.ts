@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma, Booking, BookingStatus, PaymentStatus } from '@prisma/client';
+import {
+  getEscrowBalance,
+  getNextChargeKey,
+  recordBookingCharge,
+  sendPendingProviderOperations,
+  ProviderCharge
+} from './ledger';
+import { getPaymentProvider, PaymentProviderError } from './paymentProvider';
+import { transitionBooking } from './bookingStateMachine';
+import { roundMoney } from './pricing';
+
+// Bookings that can still be paid for (and cancelled if the payment fails)
+const PAYABLE_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED'];
+
+/**
+ * Cancel bookings whose payment failed, refunding any that were already charged
+ * (e.g. earlier occurrences of the same series)
+ * @param client - Prisma client
+ * @param bookingIds - Booking IDs
+ * @param reason - Why the payment failed
+ */
+const cancelUnpaidBookings = async (
+  client: PrismaClient,
+  bookingIds: string[],
+  reason: string
+): Promise<void> => {
+  for (const id of bookingIds) {
+    await client.$transaction(
+      async (tx) => {
+        const booking = await tx.booking.findUnique({ where: { id } });
+        if (!booking || !PAYABLE_STATUSES.includes(booking.status)) return;
+
+        await transitionBooking(tx, booking, 'cancel', null, `Payment failed: ${reason}`, {
+          cancelledAt: new Date(),
+          paymentStatus: booking.paymentStatus === 'PENDING' ? 'FAILED' : booking.paymentStatus
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  }
+
+  await sendPendingProviderOperations(client, { bookingId: { in: bookingIds } });
+};
+
+/**
+ * Give back a charge the provider made but the ledger does not hold
+ * @param booking - Booking the charge was for
+ * @param charge - Charge to give back
+ * @returns Whether the charge was refunded
+ */
+export const voidBookingCharge = async (
+  booking: Pick<Booking, 'id' | 'currency'>,
+  charge: ProviderCharge
+): Promise<boolean> => {
+  try {
+    await getPaymentProvider().refund({
+      chargeReference: charge.reference,
+      amount: charge.amount,
+      currency: booking.currency,
+      idempotencyKey: `${charge.idempotencyKey}:void`
+    });
+    return true;
+  } catch (error) {
+    console.error(
+      `Booking ${booking.id}: charge ${charge.reference} was not recorded and could not be ` +
+        'voided; check the payment and the booking manually',
+      error
+    );
+    return false;
+  }
+};
+
+/**
+ * Give back a booking payment the ledger does not hold, and cancel the booking if it is
+ * still waiting for payment so that a retry cannot replay the refunded charge
+ * @param client - Prisma client
+ * @param booking - Booking the charge was for
+ * @param charge - Charge to give back
+ */
+const voidUnrecordedCharge = async (
+  client: PrismaClient,
+  booking: Pick<Booking, 'id' | 'currency'>,
+  charge: ProviderCharge
+): Promise<void> => {
+  if (!(await voidBookingCharge(booking, charge))) return;
+
+  try {
+    await cancelUnpaidBookings(client, [booking.id], 'the charge could not be recorded');
+  } catch (error) {
+    console.error(`Booking ${booking.id}: failed to cancel after voiding its charge:`, error);
+  }
+};
+
+/**
+ * Charge the student for a booking saved with a pending payment and record the charge.
+ * Runs outside any database transaction, after the booking is committed: the idempotency key
+ * stays the same until the charge is recorded, so retrying never charges twice. If the charge
+ * goes through but cannot be recorded, it is refunded and the booking cancelled.
+ * Throws PaymentProviderError when the charge is declined.
+ * @param client - Prisma client
+ * @param bookingId - Booking ID
+ * @returns Payment status after the attempt
+ */
+export const captureBookingPayment = async (
+  client: PrismaClient,
+  bookingId: string
+): Promise<PaymentStatus> => {
+  const booking = await client.booking.findUniqueOrThrow({
+    where: { id: bookingId }
+  });
+
+  if (booking.paymentStatus !== 'PENDING') {
+    return booking.paymentStatus;
+  }
+
+  // Cancelled before it was charged: there is nothing left to pay
+  if (!PAYABLE_STATUSES.includes(booking.status)) {
+    await client.booking.updateMany({
+      where: { id: booking.id, paymentStatus: 'PENDING' },
+      data: { paymentStatus: 'NOT_REQUIRED' }
+    });
+    return 'NOT_REQUIRED';
+  }
+
+  const amount = roundMoney(booking.totalPrice - (await getEscrowBalance(client, booking.id)));
+  const idempotencyKey = await getNextChargeKey(client, booking.id);
+
+  let charge: ProviderCharge | null = null;
+  if (amount > 0) {
+    const { reference } = await getPaymentProvider().charge({
+      customerId: booking.studentId,
+      amount,
+      currency: booking.currency,
+      idempotencyKey,
+      description: 'Booking payment'
+    });
+    charge = { amount, reference, idempotencyKey };
+  }
+
+  try {
+    const status = await client.$transaction(async (tx): Promise<PaymentStatus> => {
+      // Only the request (or scheduler run) that claims the pending payment records the charge
+      const claimed = await tx.booking.updateMany({
+        where: { id: booking.id, paymentStatus: 'PENDING', status: { in: PAYABLE_STATUSES } },
+        data: { paymentStatus: 'PAID' }
+      });
+
+      if (claimed.count > 0) {
+        if (charge) {
+          await recordBookingCharge(tx, booking, amount, charge.reference);
+        }
+        return 'PAID';
+      }
+
+      // Already recorded by a concurrent attempt, which the provider gave the same charge
+      const current = await tx.booking.findUniqueOrThrow({ where: { id: booking.id } });
+      if (current.paymentStatus === 'PAID') return 'PAID';
+
+      // Cancelled while it was being charged
+      await tx.booking.updateMany({
+        where: { id: booking.id, paymentStatus: 'PENDING' },
+        data: { paymentStatus: 'NOT_REQUIRED' }
+      });
+      return 'NOT_REQUIRED';
+    });
+
+    if (status !== 'PAID' && charge) {
+      await voidUnrecordedCharge(client, booking, charge);
+    }
+
+    return status;
+  } catch (error) {
+    if (charge) {
+      await voidUnrecordedCharge(client, booking, charge);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Charge the student for the extra cost of a change to a booking (e.g. a reschedule to a
+ * longer session) before the change is saved. The transaction that saves the change records
+ * the charge (see adjustBookingCharge); if the change is not saved, give it back with
+ * voidBookingCharge. Throws PaymentProviderError when the charge is declined.
+ * @param booking - Booking being changed
+ * @param amount - Extra amount to charge
+ * @param description - Description for the provider
+ * @returns Charge, or null if there is nothing to charge
+ */
+export const chargeBookingDifference = async (
+  booking: Pick<Booking, 'id' | 'studentId' | 'currency'>,
+  amount: number,
+  description: string
+): Promise<ProviderCharge | null> => {
+  amount = roundMoney(amount);
+  if (amount <= 0) return null;
+
+  // A new key for every attempt, so a voided charge is never replayed by a later one
+  const idempotencyKey = `booking:${booking.id}:difference:${randomUUID()}`;
+  const { reference } = await getPaymentProvider().charge({
+    customerId: booking.studentId,
+    amount,
+    currency: booking.currency,
+    idempotencyKey,
+    description
+  });
+
+  return { amount, reference, idempotencyKey };
+};
+
+/**
+ * Pay for newly created bookings. If a charge is declined, all of the bookings are cancelled
+ * (refunding those already charged) and the PaymentProviderError is rethrown.
+ * @param client - Prisma client
+ * @param bookingIds - Bookings created together (one booking, or the occurrences of a series)
+ * @returns Payment status of each booking, in the same order
+ */
+export const payForBookings = async (
+  client: PrismaClient,
+  bookingIds: string[]
+): Promise<PaymentStatus[]> => {
+  const statuses: PaymentStatus[] = [];
+
+  try {
+    for (const id of bookingIds) {
+      statuses.push(await captureBookingPayment(client, id));
+    }
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      await cancelUnpaidBookings(client, bookingIds, error.message);
+    }
+    throw error;
+  }
+
+  return statuses;
+};
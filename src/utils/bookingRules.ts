@@ -0,0 +1,102 @@
+import {
+  NormalizedAvailability,
+  getAvailabilityIntervals,
+  isWithinIntervals,
+  formatDateOnly,
+  parseDateOnly
+} from './availability';
+import { getBookingEnd } from './bookingConflicts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BookingRules {
+  minNoticeHours: number;
+  maxAdvanceDays: number;
+  bufferMinutes: number;
+}
+
+/**
+ * Prisma include for the availability rows relevant to a time range.
+ * Overrides get one day of margin on each side to cover any timezone offset.
+ * @param from - Range start
+ * @param to - Range end
+ * @returns Include clause for a TutorProfile query
+ */
+export const availabilityIncludeForRange = (from: Date, to: Date) => ({
+  availabilityRules: {
+    select: {
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true
+    }
+  },
+  availabilityOverrides: {
+    where: {
+      date: {
+        gte: new Date(parseDateOnly(formatDateOnly(from)).getTime() - DAY_MS),
+        lte: new Date(parseDateOnly(formatDateOnly(to)).getTime() + DAY_MS)
+      }
+    },
+    select: {
+      date: true,
+      startTime: true,
+      endTime: true
+    }
+  }
+});
+
+/**
+ * Earliest and latest session start a tutor accepts right now
+ * @param rules - Tutor's booking rules
+ * @param now - Current time
+ * @returns Bookable start window
+ */
+export const getBookingWindow = (
+  rules: BookingRules,
+  now: Date = new Date()
+): { earliest: Date; latest: Date } => {
+  return {
+    earliest: new Date(now.getTime() + rules.minNoticeHours * HOUR_MS),
+    latest: new Date(now.getTime() + rules.maxAdvanceDays * DAY_MS)
+  };
+};
+
+/**
+ * Check a requested session against the tutor's booking rules and availability
+ * @param rules - Tutor's booking rules
+ * @param availability - Tutor's normalized availability
+ * @param dateTime - Requested session start
+ * @param duration - Requested duration in minutes
+ * @param now - Current time
+ * @returns Human-readable reason the time is not bookable, or null if it is
+ */
+export const getBookingRuleViolation = (
+  rules: BookingRules,
+  availability: NormalizedAvailability,
+  dateTime: Date,
+  duration: number,
+  now: Date = new Date()
+): string | null => {
+  const { earliest, latest } = getBookingWindow(rules, now);
+  const end = getBookingEnd(dateTime, duration);
+
+  if (dateTime <= now) {
+    return 'Booking time must be in the future';
+  }
+
+  if (dateTime < earliest) {
+    return `This tutor requires at least ${rules.minNoticeHours} hours notice`;
+  }
+
+  if (dateTime > latest) {
+    return `This tutor accepts bookings at most ${rules.maxAdvanceDays} days in advance`;
+  }
+
+  const intervals = getAvailabilityIntervals(availability, dateTime, end);
+  if (!isWithinIntervals({ start: dateTime, end }, intervals)) {
+    return "The requested time is outside the tutor's availability";
+  }
+
+  return null;
+};
@@ -0,0 +1,226 @@
+import { Prisma, Booking, BookingStatus } from '@prisma/client';
+import { settleBooking } from './ledger';
+
+export type BookingAction =
+  | 'approve'
+  | 'reject'
+  | 'cancel'
+  | 'complete'
+  | 'expire'
+  | 'mark_no_show';
+export type BookingActor = 'student' | 'tutor' | 'admin' | 'system';
+
+interface TransitionRule {
+  from: BookingStatus[];
+  to: BookingStatus;
+  actors: BookingActor[];
+  forbiddenMessage: string;
+}
+
+// Every allowed booking status change, in one place
+const TRANSITIONS: Record<BookingAction, TransitionRule> = {
+  approve: {
+    from: ['PENDING'],
+    to: 'CONFIRMED',
+    actors: ['tutor'],
+    forbiddenMessage: 'Only the tutor can approve bookings'
+  },
+  reject: {
+    from: ['PENDING'],
+    to: 'REJECTED',
+    actors: ['tutor'],
+    forbiddenMessage: 'Only the tutor can reject bookings'
+  },
+  cancel: {
+    from: ['PENDING', 'CONFIRMED'],
+    to: 'CANCELLED',
+    actors: ['student', 'tutor'],
+    forbiddenMessage: 'Only the student or tutor can cancel this booking'
+  },
+  complete: {
+    from: ['CONFIRMED'],
+    to: 'COMPLETED',
+    actors: ['tutor', 'admin', 'system'],
+    forbiddenMessage: 'Only the tutor can mark bookings as completed'
+  },
+  expire: {
+    from: ['PENDING'],
+    to: 'EXPIRED',
+    actors: ['system'],
+    forbiddenMessage: 'Bookings can only expire automatically'
+  },
+  mark_no_show: {
+    from: ['CONFIRMED', 'COMPLETED'],
+    to: 'NO_SHOW',
+    actors: ['admin', 'system'],
+    forbiddenMessage: 'No-shows are decided automatically or by an admin'
+  }
+};
+
+export interface TransitionError {
+  statusCode: 400 | 403;
+  error: 'Bad Request' | 'Forbidden';
+  message: string;
+}
+
+type BookingParties = Pick<Booking, 'studentId' | 'tutorId'>;
+
+/**
+ * Determine which party of a booking a user is
+ * @param booking - Booking
+ * @param userId - User ID
+ * @returns 'student', 'tutor', or null if the user is not part of the booking
+ */
+export const getBookingActor = (
+  booking: BookingParties,
+  userId: string
+): BookingActor | null => {
+  if (booking.tutorId === userId) return 'tutor';
+  if (booking.studentId === userId) return 'student';
+  return null;
+};
+
+/**
+ * Get the status a booking action leads to
+ * @param action - Booking action
+ * @returns Target status
+ */
+export const getTransitionTarget = (action: BookingAction): BookingStatus => {
+  return TRANSITIONS[action].to;
+};
+
+/**
+ * Check whether an actor may perform an action at all, regardless of booking state
+ * @param action - Requested action
+ * @param actor - Who is acting (null if not a party of the booking)
+ * @returns Error to report, or null if the actor is allowed
+ */
+export const getPermissionError = (
+  action: BookingAction,
+  actor: BookingActor | null
+): TransitionError | null => {
+  const rule = TRANSITIONS[action];
+
+  if (!actor || !rule.actors.includes(actor)) {
+    return { statusCode: 403, error: 'Forbidden', message: rule.forbiddenMessage };
+  }
+
+  return null;
+};
+
+/**
+ * Check whether an actor may apply an action to a booking in its current state
+ * @param booking - Booking to transition
+ * @param action - Requested action
+ * @param actor - Who is acting (null if not a party of the booking)
+ * @param now - Current time
+ * @returns Error to report, or null if the transition is allowed
+ */
+export const validateTransition = (
+  booking: Pick<Booking, 'status' | 'dateTime' | 'paymentStatus'>,
+  action: BookingAction,
+  actor: BookingActor | null,
+  now: Date = new Date()
+): TransitionError | null => {
+  const rule = TRANSITIONS[action];
+
+  const permissionError = getPermissionError(action, actor);
+  if (permissionError) {
+    return permissionError;
+  }
+
+  if (!rule.from.includes(booking.status)) {
+    return {
+      statusCode: 400,
+      error: 'Bad Request',
+      message: `Cannot ${action} booking with status ${booking.status}`
+    };
+  }
+
+  if (action === 'complete' && now < booking.dateTime) {
+    return {
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Cannot mark booking as completed before the scheduled time'
+    };
+  }
+
+  // Completing releases the escrow to the tutor, so the student's payment must be in it
+  if (action === 'complete' && booking.paymentStatus === 'PENDING') {
+    return {
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Cannot mark booking as completed until its payment has been received'
+    };
+  }
+
+  return null;
+};
+
+interface BookingEventInput {
+  bookingId: string;
+  actorId: string | null;
+  action: string;
+  fromStatus: BookingStatus | null;
+  toStatus: BookingStatus;
+  reason?: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Append an entry to a booking's event log
+ * @param tx - Prisma transaction client
+ * @param event - Event details
+ */
+export const recordBookingEvent = async (
+  tx: Prisma.TransactionClient,
+  event: BookingEventInput
+): Promise<void> => {
+  await tx.bookingEvent.create({ data: event });
+};
+
+/**
+ * Apply a validated action to a booking, record it in the event log and
+ * settle the booking's payment (release/refund) in the same transaction.
+ * Callers must run validateTransition first.
+ * @param tx - Prisma transaction client
+ * @param booking - Booking being transitioned
+ * @param action - Action to apply
+ * @param actorId - Acting user (null for system actions)
+ * @param reason - Optional reason (rejection/cancellation)
+ * @param data - Extra booking fields to update alongside the status
+ */
+export const transitionBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: Pick<Booking, 'id' | 'status'>,
+  action: BookingAction,
+  actorId: string | null,
+  reason?: string,
+  data: Prisma.BookingUpdateInput = {}
+): Promise<void> => {
+  const toStatus = getTransitionTarget(action);
+
+  const updated = await tx.booking.update({
+    where: { id: booking.id },
+    data: { ...data, status: toStatus }
+  });
+
+  // A booking that is no longer confirmed cannot be moved
+  if (toStatus !== 'CONFIRMED') {
+    await tx.rescheduleProposal.updateMany({
+      where: { bookingId: booking.id, status: 'PENDING' },
+      data: { status: 'WITHDRAWN', respondedAt: new Date() }
+    });
+  }
+
+  await recordBookingEvent(tx, {
+    bookingId: booking.id,
+    actorId,
+    action,
+    fromStatus: booking.status,
+    toStatus,
+    reason
+  });
+
+  await settleBooking(tx, updated);
+};
@@ -0,0 +1,118 @@
+import { Prisma, PrismaClient, Booking } from '@prisma/client';
+import { BookingActor } from './bookingStateMachine';
+import { roundMoney } from './pricing';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Free cancellation until this many hours before the session
+  lateCancellationFeeRate: number; // Fraction of the session price charged after that
+}
+
+// Used when the tutor has no profile (matches the TutorProfile column defaults)
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  lateCancellationFeeRate: 0.5
+};
+
+export interface CancellationOutcome {
+  lateCancellation: boolean;
+  cancellationFee: number | null; // Fee (student) or penalty (tutor); null when free
+  chargedTo: 'student' | 'tutor' | null;
+  freeCancellationUntil: string | null; // Null when the policy does not apply (unconfirmed bookings)
+}
+
+/**
+ * Evaluate a tutor's cancellation policy for a booking being cancelled.
+ * Only CONFIRMED bookings are subject to the policy; unanswered requests can always be withdrawn.
+ * @param policy - Tutor's cancellation policy
+ * @param booking - Booking being cancelled (its price snapshot is the fee basis)
+ * @param actor - Party cancelling the booking
+ * @param now - Current time
+ * @returns Whether the cancellation is late and the resulting fee
+ */
+export const evaluateCancellation = (
+  policy: CancellationPolicy,
+  booking: Pick<Booking, 'status' | 'dateTime' | 'totalPrice' | 'packagePurchaseId'>,
+  actor: BookingActor,
+  now: Date = new Date()
+): CancellationOutcome => {
+  if (booking.status !== 'CONFIRMED') {
+    return {
+      lateCancellation: false,
+      cancellationFee: null,
+      chargedTo: null,
+      freeCancellationUntil: null
+    };
+  }
+
+  const freeUntil = new Date(
+    booking.dateTime.getTime() - policy.freeCancellationHours * HOUR_MS
+  );
+
+  if (now <= freeUntil) {
+    return {
+      lateCancellation: false,
+      cancellationFee: null,
+      chargedTo: null,
+      freeCancellationUntil: freeUntil.toISOString()
+    };
+  }
+
+  // A package credit cannot be split, so a student cancelling late forfeits the whole credit
+  const fee =
+    booking.packagePurchaseId && actor !== 'tutor'
+      ? booking.totalPrice
+      : roundMoney(booking.totalPrice * policy.lateCancellationFeeRate);
+
+  return {
+    lateCancellation: true,
+    cancellationFee: fee,
+    chargedTo: actor === 'tutor' ? 'tutor' : 'student',
+    freeCancellationUntil: freeUntil.toISOString()
+  };
+};
+
+/**
+ * Booking fields to store alongside a cancellation
+ * @param outcome - Evaluated cancellation policy
+ * @param actorId - User cancelling the booking
+ * @param now - Cancellation time
+ * @returns Update data for transitionBooking
+ */
+export const getCancellationData = (
+  outcome: CancellationOutcome,
+  actorId: string,
+  now: Date = new Date()
+): Prisma.BookingUpdateInput => ({
+  cancelledBy: { connect: { id: actorId } },
+  cancelledAt: now,
+  lateCancellation: outcome.lateCancellation,
+  cancellationFee: outcome.cancellationFee
+});
+
+/**
+ * Count late cancellations made by each of a set of users
+ * @param client - Prisma client
+ * @param userIds - Users to count for
+ * @returns Late cancellation count keyed by user ID
+ */
+export const getLateCancellationCounts = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  userIds: string[]
+): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>();
+  if (userIds.length === 0) return counts;
+
+  const rows = await client.booking.groupBy({
+    by: ['cancelledById'],
+    where: { cancelledById: { in: userIds }, lateCancellation: true },
+    _count: true
+  });
+
+  userIds.forEach((userId) => {
+    counts.set(userId, rows.find((row) => row.cancelledById === userId)?._count || 0);
+  });
+
+  return counts;
+};
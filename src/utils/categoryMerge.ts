@@ -0,0 +1,127 @@
+import { Prisma, Category } from '@prisma/client';
+import { MAX_CATEGORY_DEPTH, getAncestorIds, getSubtreeHeight } from './categoryTree';
+
+export interface CategoryMergeCounts {
+  tutors: number; // Tutors in the source category
+  tutorsAdded: number; // Of those, tutors that were not already in the target
+  subjects: number;
+  subcategories: number;
+  commissionRules: number;
+  slugRedirects: number; // Former slugs now leading to the target, including the source's
+}
+
+/**
+ * Check whether a category can be merged into another
+ * @param tx - Prisma transaction client
+ * @param source - Category that will be merged away
+ * @param target - Category that survives
+ * @returns Error message, or null if the merge is allowed
+ */
+export const validateCategoryMerge = async (
+  tx: Prisma.TransactionClient,
+  source: Category,
+  target: Category
+): Promise<string | null> => {
+  if (source.id === target.id) {
+    return 'Cannot merge a category into itself';
+  }
+
+  const targetAncestors = await getAncestorIds(tx, target.id);
+  if (targetAncestors.includes(source.id)) {
+    return 'Cannot merge a category into one of its own subcategories';
+  }
+
+  // Subcategories move under the target, where sibling names must stay unique
+  const [sourceChildren, targetChildren] = await Promise.all([
+    tx.category.findMany({ where: { parentId: source.id }, select: { name: true } }),
+    tx.category.findMany({ where: { parentId: target.id }, select: { name: true } })
+  ]);
+  const clashes = sourceChildren
+    .map((child) => child.name)
+    .filter((name) => targetChildren.some((child) => child.name === name));
+
+  if (clashes.length > 0) {
+    return `Both categories have subcategories named ${clashes.join(', ')}; merge those first`;
+  }
+
+  if (sourceChildren.length > 0) {
+    const childHeight = (await getSubtreeHeight(tx, source.id)) - 1;
+    if (targetAncestors.length + 1 + childHeight > MAX_CATEGORY_DEPTH) {
+      return `Categories cannot be nested more than ${MAX_CATEGORY_DEPTH} levels deep`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Merge a category into another and delete it: its tutors, subjects, subcategories and
+ * commission rules move to the target, and its slug keeps leading to the target.
+ * Callers must run validateCategoryMerge first, in the same serializable transaction.
+ * @param tx - Prisma transaction client
+ * @param source - Category that is merged away
+ * @param target - Category that survives
+ * @returns What was moved
+ */
+export const mergeCategories = async (
+  tx: Prisma.TransactionClient,
+  source: Category,
+  target: Category
+): Promise<CategoryMergeCounts> => {
+  const tutors = await tx.tutorProfile.count({
+    where: { categories: { some: { id: source.id } } }
+  });
+
+  // The source's own associations are removed when it is deleted
+  const tutorsAdded = await tx.$executeRaw`
+    INSERT INTO "_TutorCategories" ("A", "B")
+    SELECT ${target.id}, tc."B" FROM "_TutorCategories" tc WHERE tc."A" = ${source.id}
+    ON CONFLICT DO NOTHING
+  `;
+
+  const subjects = await tx.subject.updateMany({
+    where: { categoryId: source.id },
+    data: { categoryId: target.id }
+  });
+
+  // Subcategories keep their relative order, after the target's own subcategories
+  const last = await tx.category.aggregate({
+    where: { parentId: target.id },
+    _max: { position: true }
+  });
+  const subcategories = await tx.category.updateMany({
+    where: { parentId: source.id },
+    data: {
+      parentId: target.id,
+      position: { increment: (last._max.position ?? -1) + 1 }
+    }
+  });
+
+  const commissionRules = await tx.commissionRule.updateMany({
+    where: { categoryId: source.id },
+    data: { categoryId: target.id }
+  });
+
+  // Slugs that already led to the source now lead to the target, as does the source's own
+  const redirects = await tx.categorySlugRedirect.updateMany({
+    where: { categoryId: source.id },
+    data: { categoryId: target.id }
+  });
+
+  await tx.category.delete({
+    where: { id: source.id }
+  });
+
+  await tx.categorySlugRedirect.create({
+    data: { slug: source.slug, categoryId: target.id }
+  });
+
+  return {
+    tutors,
+    tutorsAdded,
+    subjects: subjects.count,
+    subcategories: subcategories.count,
+    commissionRules: commissionRules.count,
+    slugRedirects: redirects.count + 1
+  };
+};
@@ -0,0 +1,188 @@
+import { PrismaClient } from '@prisma/client';
+import { roundMoney } from './pricing';
+import { offeredSubjectsSelect } from './subjects';
+import { readNumberEnv } from './env';
+
+// How long computed stats are served before being recomputed, even without invalidation.
+// Bookings do not invalidate the cache, so recentBookings can lag behind by up to this long.
+// 0 disables caching.
+const CATEGORY_STATS_TTL_MS = readNumberEnv('CATEGORY_STATS_TTL_SECONDS', 300, { min: 0 }) * 1000;
+
+// Window for the recent bookings count
+const RECENT_BOOKINGS_DAYS = 30;
+
+// Number of top-rated tutors listed
+const TOP_TUTORS_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hourly rate percentiles reported, as fractions
+const PRICE_PERCENTILES = [0.1, 0.25, 0.5, 0.75, 0.9];
+
+export interface CategoryStats {
+  tutorCount: number; // Approved tutors in the category or its subcategories
+  price: {
+    min: number | null;
+    max: number | null;
+    average: number | null;
+    median: number | null;
+    percentiles: Record<string, number>; // e.g. { p10: 20, p25: 25, ... }
+  };
+  averageRating: number | null; // Average of all the tutors' reviews
+  reviewCount: number;
+  recentBookings: number; // Booking requests in the last RECENT_BOOKINGS_DAYS days
+  topTutors: {
+    id: string;
+    userId: string;
+    name: string;
+    hourlyRate: number;
+    rating: number;
+    reviewCount: number;
+    subjects: { id: string; name: string; slug: string }[];
+  }[];
+  computedAt: string;
+}
+
+interface CategoryStatsRow {
+  tutorCount: number;
+  min: number | null;
+  max: number | null;
+  average: number | null;
+  percentiles: number[] | null;
+  averageRating: number | null;
+  reviewCount: number;
+  recentBookings: number;
+}
+
+const cache = new Map<string, { stats: CategoryStats; expiresAt: number }>();
+
+// Bumped on every invalidation so stats computed from older data are not cached
+let generation = 0;
+
+/**
+ * Drop all cached category stats. Call once a change to tutor profiles, their categories or
+ * reviews is committed (not inside the transaction, or stats computed from the old data could
+ * be cached again); stats are recomputed on the next request.
+ */
+export const invalidateCategoryStats = (): void => {
+  cache.clear();
+  generation += 1;
+};
+
+/**
+ * Compute marketplace stats over approved, active tutors of a set of categories
+ * @param client - Prisma client
+ * @param categoryIds - Category and descendant IDs
+ * @param now - Current time
+ * @returns Category stats
+ */
+const computeCategoryStats = async (
+  client: PrismaClient,
+  categoryIds: string[],
+  now: Date
+): Promise<CategoryStats> => {
+  const since = new Date(now.getTime() - RECENT_BOOKINGS_DAYS * DAY_MS);
+  const tutorWhere = {
+    status: 'APPROVED' as const,
+    user: { status: 'ACTIVE' as const },
+    categories: { some: { id: { in: categoryIds } } }
+  };
+
+  const [[row], topTutors] = await Promise.all([
+    client.$queryRaw<CategoryStatsRow[]>`
+      WITH tutors AS (
+        SELECT DISTINCT tp."id", tp."userId", tp."hourlyRate", tp."rating", tp."reviewCount"
+        FROM "tutor_profiles" tp
+        JOIN "_TutorCategories" tc ON tc."B" = tp."id"
+        JOIN "users" u ON u."id" = tp."userId"
+        WHERE tc."A" = ANY(${categoryIds})
+          AND tp."status" = 'APPROVED'
+          AND u."status" = 'ACTIVE'
+      )
+      SELECT
+        COUNT(*)::int AS "tutorCount",
+        MIN(t."hourlyRate") AS "min",
+        MAX(t."hourlyRate") AS "max",
+        AVG(t."hourlyRate") AS "average",
+        percentile_cont(${PRICE_PERCENTILES}::float8[]) WITHIN GROUP (ORDER BY t."hourlyRate")
+          AS "percentiles",
+        SUM(t."rating" * t."reviewCount") / NULLIF(SUM(t."reviewCount"), 0) AS "averageRating",
+        COALESCE(SUM(t."reviewCount"), 0)::int AS "reviewCount",
+        (
+          SELECT COUNT(*)::int FROM "bookings" b
+          WHERE b."tutorId" IN (SELECT "userId" FROM tutors)
+            AND b."createdAt" >= ${since}
+            AND b."status" NOT IN ('REJECTED', 'EXPIRED')
+        ) AS "recentBookings"
+      FROM tutors t
+    `,
+    client.tutorProfile.findMany({
+      where: { ...tutorWhere, reviewCount: { gt: 0 } },
+      select: {
+        id: true,
+        userId: true,
+        hourlyRate: true,
+        rating: true,
+        reviewCount: true,
+        subjects: offeredSubjectsSelect(),
+        user: { select: { name: true } }
+      },
+      orderBy: [{ rating: 'desc' }, { reviewCount: 'desc' }, { id: 'asc' }],
+      take: TOP_TUTORS_LIMIT
+    })
+  ]);
+
+  const percentiles = Object.fromEntries(
+    PRICE_PERCENTILES.map((fraction, index) => [
+      `p${Math.round(fraction * 100)}`,
+      roundMoney(Number(row.percentiles?.[index] ?? 0))
+    ])
+  );
+  const toMoney = (value: number | null): number | null =>
+    value === null ? null : roundMoney(Number(value));
+
+  return {
+    tutorCount: row.tutorCount,
+    price: {
+      min: toMoney(row.min),
+      max: toMoney(row.max),
+      average: toMoney(row.average),
+      median: row.tutorCount > 0 ? percentiles.p50 : null,
+      percentiles: row.tutorCount > 0 ? percentiles : {}
+    },
+    averageRating:
+      row.averageRating === null ? null : Math.round(Number(row.averageRating) * 100) / 100,
+    reviewCount: row.reviewCount,
+    recentBookings: row.recentBookings,
+    topTutors: topTutors.map(({ user, ...tutor }) => ({ ...tutor, name: user.name })),
+    computedAt: now.toISOString()
+  };
+};
+
+/**
+ * Get a category's marketplace stats, from the in-process cache when still fresh
+ * @param client - Prisma client
+ * @param categoryId - Category ID (cache key)
+ * @param categoryIds - Category and descendant IDs the stats cover
+ * @returns Category stats
+ */
+export const getCachedCategoryStats = async (
+  client: PrismaClient,
+  categoryId: string,
+  categoryIds: string[]
+): Promise<CategoryStats> => {
+  const now = new Date();
+  const cached = cache.get(categoryId);
+  if (cached && cached.expiresAt > now.getTime()) {
+    return cached.stats;
+  }
+
+  const startedAt = generation;
+  const stats = await computeCategoryStats(client, categoryIds, now);
+
+  if (generation === startedAt) {
+    cache.set(categoryId, { stats, expiresAt: now.getTime() + CATEGORY_STATS_TTL_MS });
+  }
+
+  return stats;
+};
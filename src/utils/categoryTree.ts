@@ -0,0 +1,185 @@
+import { Prisma, PrismaClient, Category } from '@prisma/client';
+
+// Deepest nesting allowed (e.g. Languages > Spanish > Conversational is 3 levels)
+export const MAX_CATEGORY_DEPTH = 5;
+
+export type CategoryNode<T extends Pick<Category, 'id' | 'parentId'>> = T & {
+  children: CategoryNode<T>[];
+};
+
+/**
+ * Nest a flat list of categories under their parents, keeping the list's order among siblings
+ * @param categories - Categories, already sorted for display
+ * @returns Top-level categories with their descendants in children
+ */
+export const buildCategoryTree = <T extends Pick<Category, 'id' | 'parentId'>>(
+  categories: T[]
+): CategoryNode<T>[] => {
+  const nodes = new Map<string, CategoryNode<T>>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode<T>[] = [];
+
+  categories.forEach((category) => {
+    const node = nodes.get(category.id) as CategoryNode<T>;
+    const parent = category.parentId ? nodes.get(category.parentId) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+/**
+ * Find a category by its slug, or by the slug of a category that was merged into it
+ * @param client - Prisma client or transaction client
+ * @param slug - Current or former category slug
+ * @returns Category, or null if no category has or had that slug
+ */
+export const findCategoryBySlug = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  slug: string
+): Promise<Category | null> => {
+  const category = await client.category.findUnique({
+    where: { slug }
+  });
+
+  if (category) return category;
+
+  const redirect = await client.categorySlugRedirect.findUnique({
+    where: { slug },
+    include: { category: true }
+  });
+
+  return redirect?.category || null;
+};
+
+/**
+ * Check whether a slug is taken by a category or kept as a redirect to one
+ * @param client - Prisma client or transaction client
+ * @param slug - Slug
+ * @param exceptId - Category allowed to hold the slug (when updating it)
+ * @returns True if the slug cannot be used
+ */
+export const isCategorySlugTaken = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  slug: string,
+  exceptId?: string
+): Promise<boolean> => {
+  const [category, redirect] = await Promise.all([
+    client.category.findFirst({ where: { slug, id: { not: exceptId } } }),
+    client.categorySlugRedirect.findUnique({ where: { slug } })
+  ]);
+
+  return category !== null || redirect !== null;
+};
+
+/**
+ * Get the IDs of a category and everything nested below it
+ * @param client - Prisma client or transaction client
+ * @param slug - Category slug (former slugs of merged categories also work)
+ * @returns Category ID followed by its descendants' IDs, empty if the category does not exist
+ */
+export const getCategoryAndDescendantIds = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  slug: string
+): Promise<string[]> => {
+  const rows = await client.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE tree AS (
+      SELECT c."id" FROM "categories" c
+      WHERE c."slug" = ${slug}
+         OR c."id" = (
+           SELECT r."categoryId" FROM "category_slug_redirects" r WHERE r."slug" = ${slug}
+         )
+      UNION ALL
+      SELECT c."id" FROM "categories" c JOIN tree t ON c."parentId" = t."id"
+    )
+    SELECT "id" FROM tree
+  `;
+
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Get the IDs of a category's ancestors
+ * @param client - Prisma client or transaction client
+ * @param categoryId - Category ID
+ * @returns Ancestor IDs from the parent up to the top-level category
+ */
+export const getAncestorIds = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  categoryId: string
+): Promise<string[]> => {
+  const rows = await client.$queryRaw<{ id: string }[]>`
+    WITH RECURSIVE ancestors AS (
+      SELECT c."parentId" AS "id", 1 AS "level" FROM "categories" c WHERE c."id" = ${categoryId}
+      UNION ALL
+      SELECT c."parentId", a."level" + 1 FROM "categories" c JOIN ancestors a ON c."id" = a."id"
+    )
+    SELECT "id" FROM ancestors WHERE "id" IS NOT NULL ORDER BY "level"
+  `;
+
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Get how many levels a category's subtree spans
+ * @param client - Prisma client or transaction client
+ * @param categoryId - Category ID
+ * @returns 1 for a category without children, 2 if it only has children, and so on
+ */
+export const getSubtreeHeight = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  categoryId: string
+): Promise<number> => {
+  const [row] = await client.$queryRaw<{ height: number }[]>`
+    WITH RECURSIVE tree AS (
+      SELECT c."id", 1 AS "level" FROM "categories" c WHERE c."id" = ${categoryId}
+      UNION ALL
+      SELECT c."id", t."level" + 1 FROM "categories" c JOIN tree t ON c."parentId" = t."id"
+    )
+    SELECT COALESCE(MAX("level"), 0)::int AS "height" FROM tree
+  `;
+
+  return row.height;
+};
+
+/**
+ * Check whether a category can be placed under a parent: the parent must exist, must not be
+ * the category itself or one of its descendants, and the result must not nest too deeply
+ * @param client - Prisma client or transaction client
+ * @param parentId - Proposed parent ID
+ * @param categoryId - Category being moved (omit when creating a category)
+ * @returns Error message, or null if the placement is allowed
+ */
+export const validateCategoryParent = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  parentId: string,
+  categoryId?: string
+): Promise<string | null> => {
+  const parent = await client.category.findUnique({
+    where: { id: parentId },
+    select: { id: true }
+  });
+
+  if (!parent) {
+    return 'Parent category not found';
+  }
+
+  const parentAncestors = await getAncestorIds(client, parentId);
+
+  if (categoryId && (parentId === categoryId || parentAncestors.includes(categoryId))) {
+    return 'A category cannot be moved under itself or one of its subcategories';
+  }
+
+  const height = categoryId ? await getSubtreeHeight(client, categoryId) : 1;
+  if (parentAncestors.length + 1 + height > MAX_CATEGORY_DEPTH) {
+    return `Categories cannot be nested more than ${MAX_CATEGORY_DEPTH} levels deep`;
+  }
+
+  return null;
+};
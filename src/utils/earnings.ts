@@ -0,0 +1,187 @@
+import { PrismaClient } from '@prisma/client';
+import { formatDateOnly } from './availability';
+import { roundMoney } from './pricing';
+
+export type EarningsGroupBy = 'day' | 'week' | 'month';
+
+export interface EarningsPeriod {
+  period: string; // First day of the period (YYYY-MM-DD, tutor's timezone)
+  completedSessions: number;
+  completedHours: number;
+  grossEarnings: number; // Price of completed sessions
+  commission: number; // Platform share taken when the sessions were paid out
+  tax: number; // Tax included in the price, withheld when the sessions were paid out
+  netEarnings: number;
+  refunds: number; // Returned to students (money or package credit)
+  cancellations: number;
+}
+
+interface BookingPeriodRow {
+  period: Date;
+  completedSessions: bigint;
+  completedMinutes: bigint;
+  grossEarnings: number;
+  cancellations: bigint;
+}
+
+interface LedgerPeriodRow {
+  period: Date;
+  commission: number;
+  tax: number;
+  refunds: number;
+}
+
+/**
+ * Aggregate a tutor's bookings and ledger activity per day/week/month in the database.
+ * Bookings are attributed to the period their session falls in.
+ * @param client - Prisma client
+ * @param tutorId - Tutor's user ID
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @param groupBy - Period length
+ * @param timezone - IANA timezone the periods are aligned to
+ * @returns One entry per period that has activity, oldest first
+ */
+export const getEarningsByPeriod = async (
+  client: PrismaClient,
+  tutorId: string,
+  from: Date,
+  to: Date,
+  groupBy: EarningsGroupBy,
+  timezone: string
+): Promise<EarningsPeriod[]> => {
+  const [bookingRows, ledgerRows] = await Promise.all([
+    client.$queryRaw<BookingPeriodRow[]>`
+      SELECT
+        date_trunc(${groupBy}, (b."dateTime" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}) AS "period",
+        COUNT(*) FILTER (WHERE b."status" = 'COMPLETED') AS "completedSessions",
+        COALESCE(SUM(b."duration") FILTER (WHERE b."status" = 'COMPLETED'), 0) AS "completedMinutes",
+        COALESCE(SUM(b."totalPrice") FILTER (WHERE b."status" = 'COMPLETED'), 0) AS "grossEarnings",
+        COUNT(*) FILTER (WHERE b."status" = 'CANCELLED') AS "cancellations"
+      FROM "bookings" b
+      WHERE b."tutorId" = ${tutorId}
+        AND b."dateTime" >= ${from}
+        AND b."dateTime" < ${to}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    client.$queryRaw<LedgerPeriodRow[]>`
+      SELECT
+        date_trunc(${groupBy}, (b."dateTime" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}) AS "period",
+        COALESCE(SUM(CASE WHEN e."direction" = 'CREDIT' THEN e."amount" ELSE -e."amount" END) FILTER (
+          WHERE t."type" IN ('RELEASE', 'REVERSAL') AND e."account" = 'PLATFORM_REVENUE'
+        ), 0) AS "commission",
+        COALESCE(SUM(CASE WHEN e."direction" = 'CREDIT' THEN e."amount" ELSE -e."amount" END) FILTER (
+          WHERE t."type" IN ('RELEASE', 'REVERSAL') AND e."account" = 'TAX_PAYABLE'
+        ), 0) AS "tax",
+        COALESCE(SUM(e."amount") FILTER (
+          WHERE t."type" IN ('REFUND', 'CREDIT_RETURN') AND e."account" = 'ESCROW'
+        ), 0) AS "refunds"
+      FROM "ledger_entries" e
+      JOIN "ledger_transactions" t ON t."id" = e."transactionId"
+      JOIN "bookings" b ON b."id" = t."bookingId"
+      WHERE b."tutorId" = ${tutorId}
+        AND b."dateTime" >= ${from}
+        AND b."dateTime" < ${to}
+      GROUP BY 1
+    `
+  ]);
+
+  const periods = new Map<string, EarningsPeriod>();
+  const getPeriod = (date: Date): EarningsPeriod => {
+    const key = formatDateOnly(date);
+    const existing = periods.get(key);
+    if (existing) return existing;
+
+    const created: EarningsPeriod = {
+      period: key,
+      completedSessions: 0,
+      completedHours: 0,
+      grossEarnings: 0,
+      commission: 0,
+      tax: 0,
+      netEarnings: 0,
+      refunds: 0,
+      cancellations: 0
+    };
+    periods.set(key, created);
+    return created;
+  };
+
+  bookingRows.forEach((row) => {
+    const period = getPeriod(row.period);
+    period.completedSessions = Number(row.completedSessions);
+    period.completedHours = Number(row.completedMinutes) / 60;
+    period.grossEarnings = roundMoney(Number(row.grossEarnings));
+    period.cancellations = Number(row.cancellations);
+  });
+
+  ledgerRows.forEach((row) => {
+    const period = getPeriod(row.period);
+    period.commission = roundMoney(Number(row.commission));
+    period.tax = roundMoney(Number(row.tax));
+    period.refunds = roundMoney(Number(row.refunds));
+  });
+
+  return Array.from(periods.values())
+    .map((period) => ({
+      ...period,
+      netEarnings: roundMoney(period.grossEarnings - period.commission - period.tax)
+    }))
+    .sort((a, b) => a.period.localeCompare(b.period));
+};
+
+export interface SpendingPeriod {
+  period: string; // First day of the month (YYYY-MM-DD)
+  charged: number; // Session payments and package purchases
+  refunded: number;
+  net: number;
+}
+
+interface SpendingRow {
+  period: Date;
+  charged: number;
+  refunded: number;
+}
+
+/**
+ * Aggregate what a student paid and got refunded per month, from the payments ledger
+ * @param client - Prisma client
+ * @param studentId - Student's user ID
+ * @param from - Range start (inclusive)
+ * @param timezone - IANA timezone the months are aligned to
+ * @returns One entry per month with payments, oldest first
+ */
+export const getSpendingByMonth = async (
+  client: PrismaClient,
+  studentId: string,
+  from: Date,
+  timezone: string
+): Promise<SpendingPeriod[]> => {
+  const rows = await client.$queryRaw<SpendingRow[]>`
+    SELECT
+      date_trunc('month', (t."createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}) AS "period",
+      COALESCE(SUM(t."amount") FILTER (WHERE t."type" IN ('CHARGE', 'PACKAGE_PURCHASE')), 0) AS "charged",
+      COALESCE(SUM(t."amount") FILTER (WHERE t."type" = 'REFUND'), 0) AS "refunded"
+    FROM "ledger_transactions" t
+    LEFT JOIN "bookings" b ON b."id" = t."bookingId"
+    LEFT JOIN "package_purchases" p ON p."id" = t."packagePurchaseId"
+    WHERE (b."studentId" = ${studentId} OR p."studentId" = ${studentId})
+      AND t."type" IN ('CHARGE', 'PACKAGE_PURCHASE', 'REFUND')
+      AND t."createdAt" >= ${from}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  return rows.map((row) => {
+    const charged = roundMoney(Number(row.charged));
+    const refunded = roundMoney(Number(row.refunded));
+
+    return {
+      period: formatDateOnly(row.period),
+      charged,
+      refunded,
+      net: roundMoney(charged - refunded)
+    };
+  });
+};
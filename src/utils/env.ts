@@ -0,0 +1,39 @@
+interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Read a numeric setting from the environment. Settings are read when their module loads,
+ * so a malformed or out-of-range value stops the server at startup.
+ * @param name - Environment variable name
+ * @param defaultValue - Value used when the variable is unset or empty
+ * @param range - Inclusive bounds the value must fall within
+ * @returns Configured value, or the default
+ */
+export const readNumberEnv = (
+  name: string,
+  defaultValue: number,
+  range: NumberRange = {}
+): number => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return defaultValue;
+
+  const value = Number(raw);
+  const inRange =
+    Number.isFinite(value) &&
+    (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max);
+
+  if (!inRange) {
+    const bounds = [
+      range.min !== undefined && `at least ${range.min}`,
+      range.max !== undefined && `at most ${range.max}`
+    ].filter(Boolean);
+    const expected = bounds.length > 0 ? `a number ${bounds.join(' and ')}` : 'a number';
+
+    throw new Error(`${name} must be ${expected} (got "${raw}")`);
+  }
+
+  return value;
+};
@@ -0,0 +1,206 @@
+import { Prisma, Invoice, BookingStatus } from '@prisma/client';
+import { formatDateOnly } from './availability';
+import { roundMoney } from './pricing';
+import { PdfLine, renderTextPdf } from './pdf';
+
+// Name printed as the issuer on every invoice
+const INVOICE_ISSUER = process.env.INVOICE_ISSUER_NAME || 'SkillBridge';
+
+// Only bookings in these statuses get an invoice (the session took place and was paid for)
+export const INVOICEABLE_STATUSES: BookingStatus[] = ['COMPLETED'];
+
+/**
+ * Format an invoice number for display
+ * @param number - Sequential invoice number
+ * @returns Number with prefix and leading zeros (e.g. INV-000042)
+ */
+export const formatInvoiceNumber = (number: number): string => {
+  return `INV-${String(number).padStart(6, '0')}`;
+};
+
+/**
+ * Get a booking's invoice, issuing it with the next sequential number if it has none yet.
+ * Should run in a serializable transaction so two invoices never share a number.
+ * @param tx - Prisma transaction client
+ * @param bookingId - Booking ID (the booking must be in an invoiceable status)
+ * @returns The booking's invoice
+ */
+export const getOrIssueInvoice = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string
+): Promise<Invoice> => {
+  const existing = await tx.invoice.findUnique({
+    where: { bookingId }
+  });
+
+  if (existing) return existing;
+
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: {
+      student: { select: { name: true, email: true } },
+      tutor: { select: { name: true, email: true } }
+    }
+  });
+
+  const last = await tx.invoice.aggregate({
+    _max: { number: true }
+  });
+
+  return tx.invoice.create({
+    data: {
+      number: (last._max.number || 0) + 1,
+      bookingId: booking.id,
+      studentId: booking.studentId,
+      tutorId: booking.tutorId,
+      studentName: booking.student.name,
+      studentEmail: booking.student.email,
+      tutorName: booking.tutor.name,
+      tutorEmail: booking.tutor.email,
+      sessionDate: booking.dateTime,
+      duration: booking.duration,
+      subject: booking.subject,
+      hourlyRate: booking.hourlyRate,
+      currency: booking.currency,
+      subtotal: roundMoney(booking.totalPrice + booking.discountAmount),
+      discount: booking.discountAmount,
+      tax: booking.taxAmount,
+      taxRate: booking.taxRate,
+      total: booking.totalPrice,
+      paidWithCredit: booking.packagePurchaseId !== null
+    }
+  });
+};
+
+/**
+ * Format an amount with its currency
+ * @param amount - Amount
+ * @param currency - Currency code
+ * @returns Formatted amount (e.g. 45.00 USD)
+ */
+const formatAmount = (amount: number, currency: string): string => {
+  return `${amount.toFixed(2)} ${currency}`;
+};
+
+/**
+ * Label/value rows shared by the HTML and PDF renderings
+ * @param invoice - Invoice
+ * @returns Sections of rows, in print order
+ */
+const getInvoiceSections = (invoice: Invoice): { title: string; rows: [string, string][] }[] => {
+  const session = invoice.sessionDate.toISOString();
+
+  return [
+    {
+      title: 'Billed to',
+      rows: [
+        ['Student', invoice.studentName],
+        ['Email', invoice.studentEmail]
+      ]
+    },
+    {
+      title: 'Tutor',
+      rows: [
+        ['Tutor', invoice.tutorName],
+        ['Email', invoice.tutorEmail]
+      ]
+    },
+    {
+      title: 'Session',
+      rows: [
+        ['Date', `${session.slice(0, 10)} ${session.slice(11, 16)} UTC`],
+        ['Subject', invoice.subject || '-'],
+        ['Duration', `${invoice.duration} minutes`],
+        ['Hourly rate', formatAmount(invoice.hourlyRate, invoice.currency)],
+        ['Payment', invoice.paidWithCredit ? 'Lesson package credit' : 'Card']
+      ]
+    },
+    {
+      title: 'Amount',
+      rows: [
+        ['Subtotal', formatAmount(invoice.subtotal, invoice.currency)],
+        ['Discount', formatAmount(-invoice.discount, invoice.currency)],
+        ['Total', formatAmount(invoice.total, invoice.currency)],
+        [
+          `Tax included (${roundMoney(invoice.taxRate * 100)}%)`,
+          formatAmount(invoice.tax, invoice.currency)
+        ]
+      ]
+    }
+  ];
+};
+
+/**
+ * Escape text for use in HTML
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Render an invoice as a standalone HTML page
+ * @param invoice - Invoice
+ * @returns HTML document
+ */
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const number = formatInvoiceNumber(invoice.number);
+  const sections = getInvoiceSections(invoice)
+    .map(
+      (section) => `
+    <h2>${escapeHtml(section.title)}</h2>
+    <table>
+${section.rows
+  .map(([label, value]) => `      <tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+  .join('\n')}
+    </table>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>Invoice ${number}</title>
+    <style>
+      body { font-family: Helvetica, Arial, sans-serif; max-width: 640px; margin: 40px auto; color: #222; }
+      h2 { font-size: 1em; margin-top: 24px; border-bottom: 1px solid #ccc; }
+      table { width: 100%; border-collapse: collapse; }
+      th { text-align: left; font-weight: normal; color: #555; width: 40%; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(INVOICE_ISSUER)} invoice ${number}</h1>
+    <p>Issued ${formatDateOnly(invoice.issuedAt)}</p>
+${sections}
+  </body>
+</html>
+`;
+};
+
+/**
+ * Render an invoice as a PDF document
+ * @param invoice - Invoice
+ * @returns PDF file contents
+ */
+export const renderInvoicePdf = (invoice: Invoice): Buffer => {
+  const lines: PdfLine[] = [
+    { text: `${INVOICE_ISSUER} invoice ${formatInvoiceNumber(invoice.number)}`, size: 18, bold: true },
+    { text: `Issued ${formatDateOnly(invoice.issuedAt)}`, spaceBefore: 4 }
+  ];
+
+  getInvoiceSections(invoice).forEach((section) => {
+    lines.push({ text: section.title, bold: true, size: 12, spaceBefore: 14 });
+    section.rows.forEach(([label, value]) => {
+      lines.push({ text: label, value, bold: label === 'Total' });
+    });
+  });
+
+  return renderTextPdf(lines);
+};
@@ -0,0 +1,752 @@
+import {
+  Prisma,
+  PrismaClient,
+  Booking,
+  PackagePurchase,
+  LedgerAccount,
+  LedgerDirection,
+  LedgerTransaction,
+  LedgerTransactionType,
+  ProviderOperationStatus
+} from '@prisma/client';
+import { getPaymentProvider, PaymentProviderError } from './paymentProvider';
+import { roundMoney, DEFAULT_CURRENCY } from './pricing';
+import { splitAmount } from './platformFees';
+
+// Asset accounts grow with debits; every other account grows with credits
+const DEBIT_NORMAL_ACCOUNTS: LedgerAccount[] = ['PROVIDER_CLEARING'];
+
+interface LedgerEntryInput {
+  account: LedgerAccount;
+  userId?: string | null;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+interface LedgerTransactionInput {
+  type: LedgerTransactionType;
+  bookingId?: string | null;
+  amount: number;
+  currency: string;
+  providerReference?: string;
+  providerStatus?: ProviderOperationStatus;
+  chargeReference?: string;
+  description?: string;
+  packagePurchaseId?: string;
+  entries: LedgerEntryInput[];
+}
+
+// Booking fields needed to move its money
+export type LedgerBooking = Pick<
+  Booking,
+  | 'id'
+  | 'studentId'
+  | 'tutorId'
+  | 'status'
+  | 'totalPrice'
+  | 'currency'
+  | 'cancelledById'
+  | 'lateCancellation'
+  | 'cancellationFee'
+  | 'packagePurchaseId'
+  | 'commissionRate'
+  | 'taxRate'
+>;
+
+// Booking money settled out of escrow and how it was split
+export interface SettledTotals {
+  gross: number;
+  platformRevenue: number; // Commission
+  taxCollected: number;
+  tutorEarnings: number;
+}
+
+// Charge made at the payment provider before it is recorded in the ledger
+export interface ProviderCharge {
+  amount: number;
+  reference: string; // Provider reference of the charge
+  idempotencyKey: string;
+}
+
+/**
+ * Record a balanced set of ledger entries
+ * @param tx - Prisma transaction client
+ * @param input - Transaction and its entries (debits must equal credits)
+ * @returns Created ledger transaction
+ */
+export const postLedgerTransaction = async (
+  tx: Prisma.TransactionClient,
+  input: LedgerTransactionInput
+): Promise<LedgerTransaction> => {
+  const total = (direction: LedgerDirection) =>
+    roundMoney(
+      input.entries
+        .filter((entry) => entry.direction === direction)
+        .reduce((sum, entry) => sum + entry.amount, 0)
+    );
+
+  if (total('DEBIT') !== total('CREDIT')) {
+    throw new Error(`Unbalanced ledger transaction (${input.type})`);
+  }
+
+  const { entries, ...transaction } = input;
+
+  return tx.ledgerTransaction.create({
+    data: {
+      ...transaction,
+      entries: {
+        create: entries.map((entry) => ({
+          account: entry.account,
+          userId: entry.userId || null,
+          direction: entry.direction,
+          amount: entry.amount
+        }))
+      }
+    }
+  });
+};
+
+/**
+ * Sum ledger entries into a balance, positive in the account's normal direction
+ * @param client - Prisma client
+ * @param account - Account to sum
+ * @param where - Additional entry filter
+ * @returns Balance
+ */
+const sumEntries = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  account: LedgerAccount,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<number> => {
+  const rows = await client.ledgerEntry.groupBy({
+    by: ['direction'],
+    where: { ...where, account },
+    _sum: { amount: true }
+  });
+
+  const debit = rows.find((row) => row.direction === 'DEBIT')?._sum.amount || 0;
+  const credit = rows.find((row) => row.direction === 'CREDIT')?._sum.amount || 0;
+
+  return roundMoney(DEBIT_NORMAL_ACCOUNTS.includes(account) ? debit - credit : credit - debit);
+};
+
+/**
+ * Get the balance of an account (or of one user's sub-account)
+ * @param client - Prisma client
+ * @param account - Ledger account
+ * @param userId - Sub-account owner (e.g. tutor for TUTOR_PAYABLE)
+ * @returns Balance in the account's normal direction
+ */
+export const getAccountBalance = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  account: LedgerAccount,
+  userId?: string
+): Promise<number> => {
+  return sumEntries(client, account, userId ? { userId } : {});
+};
+
+/**
+ * Get the booking money settled out of escrow (releases less reversals) and its shares.
+ * Covers completed sessions as well as no-shows and late cancellation fees paid to the tutor.
+ * @param client - Prisma client
+ * @returns Gross amount settled, platform commission, tax and tutors' share
+ */
+export const getSettledTotals = async (
+  client: PrismaClient
+): Promise<SettledTotals> => {
+  const settled: Prisma.LedgerEntryWhereInput = {
+    transaction: { type: { in: ['RELEASE', 'REVERSAL'] }, bookingId: { not: null } }
+  };
+  const [platformRevenue, taxCollected, tutorEarnings] = await Promise.all([
+    sumEntries(client, 'PLATFORM_REVENUE', settled),
+    sumEntries(client, 'TAX_PAYABLE', settled),
+    sumEntries(client, 'TUTOR_PAYABLE', settled)
+  ]);
+
+  return {
+    gross: roundMoney(platformRevenue + taxCollected + tutorEarnings),
+    platformRevenue,
+    taxCollected,
+    tutorEarnings
+  };
+};
+
+/**
+ * Get the amount a booking currently holds in escrow
+ * @param client - Prisma client
+ * @param bookingId - Booking ID
+ * @returns Escrow balance
+ */
+export const getEscrowBalance = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  bookingId: string
+): Promise<number> => {
+  return sumEntries(client, 'ESCROW', { transaction: { bookingId } });
+};
+
+/**
+ * Get the idempotency key for a booking's next charge. It only changes once a charge is
+ * recorded, so retrying a charge whose outcome is unknown replays it instead of charging again.
+ * @param client - Prisma client or transaction client
+ * @param bookingId - Booking ID
+ * @returns Idempotency key
+ */
+export const getNextChargeKey = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  bookingId: string
+): Promise<string> => {
+  const previousCharges = await client.ledgerTransaction.count({
+    where: { bookingId, type: 'CHARGE' }
+  });
+
+  return `booking:${bookingId}:charge:${previousCharges}`;
+};
+
+/**
+ * Record a charge the payment provider made for a booking, holding the money in escrow
+ * @param tx - Prisma transaction client
+ * @param booking - Booking paid for
+ * @param amount - Amount charged
+ * @param reference - Provider reference of the charge
+ * @param description - Ledger description
+ */
+export const recordBookingCharge = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  amount: number,
+  reference: string,
+  description = 'Booking payment'
+): Promise<void> => {
+  await postLedgerTransaction(tx, {
+    type: 'CHARGE',
+    bookingId: booking.id,
+    amount,
+    currency: booking.currency,
+    providerReference: reference,
+    description,
+    entries: [
+      { account: 'PROVIDER_CLEARING', direction: 'DEBIT', amount },
+      { account: 'ESCROW', direction: 'CREDIT', amount }
+    ]
+  });
+};
+
+/**
+ * Refund escrowed money to the student, split across the booking's charges oldest first.
+ * The refunds are only recorded here; sendPendingProviderOperations makes them once the
+ * transaction has committed.
+ * @param tx - Prisma transaction client
+ * @param booking - Booking being refunded
+ * @param amount - Amount to refund
+ * @param description - Ledger description
+ */
+export const refundBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  amount: number,
+  description: string
+): Promise<void> => {
+  let remaining = roundMoney(amount);
+  if (remaining <= 0) return;
+
+  const [charges, refunds] = await Promise.all([
+    tx.ledgerTransaction.findMany({
+      where: { bookingId: booking.id, type: 'CHARGE' },
+      orderBy: { createdAt: 'asc' }
+    }),
+    tx.ledgerTransaction.findMany({
+      where: { bookingId: booking.id, type: 'REFUND', providerStatus: { not: 'FAILED' } }
+    })
+  ]);
+
+  // Earlier refunds used up the oldest charges first
+  let alreadyRefunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+  for (const charge of charges) {
+    const usedUp = Math.min(alreadyRefunded, charge.amount);
+    alreadyRefunded -= usedUp;
+
+    const part = roundMoney(Math.min(charge.amount - usedUp, remaining));
+    if (part <= 0 || !charge.providerReference) continue;
+
+    await postLedgerTransaction(tx, {
+      type: 'REFUND',
+      bookingId: booking.id,
+      amount: part,
+      currency: booking.currency,
+      providerStatus: 'PENDING',
+      chargeReference: charge.providerReference,
+      description,
+      entries: [
+        { account: 'ESCROW', direction: 'DEBIT', amount: part },
+        { account: 'PROVIDER_CLEARING', direction: 'CREDIT', amount: part }
+      ]
+    });
+
+    remaining = roundMoney(remaining - part);
+    if (remaining <= 0) break;
+  }
+};
+
+/**
+ * Move escrowed money to the tutor's payable balance, less the booking's tax and platform commission
+ * @param tx - Prisma transaction client
+ * @param booking - Booking being settled
+ * @param amount - Amount to release
+ * @param description - Ledger description
+ */
+const releaseToTutor = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  amount: number,
+  description: string
+): Promise<void> => {
+  amount = roundMoney(amount);
+  if (amount <= 0) return;
+
+  const { tax, commission, tutor } = splitAmount(amount, booking);
+  const entries: LedgerEntryInput[] = [
+    { account: 'ESCROW', direction: 'DEBIT', amount },
+    { account: 'TUTOR_PAYABLE', userId: booking.tutorId, direction: 'CREDIT', amount: tutor }
+  ];
+
+  if (commission > 0) {
+    entries.push({ account: 'PLATFORM_REVENUE', direction: 'CREDIT', amount: commission });
+  }
+  if (tax > 0) {
+    entries.push({ account: 'TAX_PAYABLE', direction: 'CREDIT', amount: tax });
+  }
+
+  await postLedgerTransaction(tx, {
+    type: 'RELEASE',
+    bookingId: booking.id,
+    amount,
+    currency: booking.currency,
+    description,
+    entries
+  });
+};
+
+/**
+ * Take back what was already released for a booking (tutor share, commission and tax) into escrow
+ * @param tx - Prisma transaction client
+ * @param booking - Booking whose release is reversed
+ * @param description - Ledger description
+ */
+const reverseRelease = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  description: string
+): Promise<void> => {
+  const released: Prisma.LedgerTransactionWhereInput = {
+    bookingId: booking.id,
+    type: { in: ['RELEASE', 'REVERSAL'] }
+  };
+  const [tutor, commission, tax] = await Promise.all([
+    sumEntries(tx, 'TUTOR_PAYABLE', { userId: booking.tutorId, transaction: released }),
+    sumEntries(tx, 'PLATFORM_REVENUE', { transaction: released }),
+    sumEntries(tx, 'TAX_PAYABLE', { transaction: released })
+  ]);
+
+  const entries: LedgerEntryInput[] = [];
+  if (tutor > 0) {
+    entries.push({
+      account: 'TUTOR_PAYABLE',
+      userId: booking.tutorId,
+      direction: 'DEBIT',
+      amount: tutor
+    });
+  }
+  if (commission > 0) {
+    entries.push({ account: 'PLATFORM_REVENUE', direction: 'DEBIT', amount: commission });
+  }
+  if (tax > 0) {
+    entries.push({ account: 'TAX_PAYABLE', direction: 'DEBIT', amount: tax });
+  }
+
+  const amount = roundMoney(entries.reduce((sum, entry) => sum + entry.amount, 0));
+  if (amount <= 0) return;
+
+  entries.push({ account: 'ESCROW', direction: 'CREDIT', amount });
+
+  await postLedgerTransaction(tx, {
+    type: 'REVERSAL',
+    bookingId: booking.id,
+    amount,
+    currency: booking.currency,
+    description,
+    entries
+  });
+};
+
+/**
+ * Record a charge the payment provider made for a lesson package, holding the money as
+ * lesson credit
+ * @param tx - Prisma transaction client
+ * @param purchase - Package purchase paid for
+ * @param amount - Amount charged
+ * @param reference - Provider reference of the charge
+ */
+export const recordPackageCharge = async (
+  tx: Prisma.TransactionClient,
+  purchase: PackagePurchase,
+  amount: number,
+  reference: string
+): Promise<void> => {
+  await postLedgerTransaction(tx, {
+    type: 'PACKAGE_PURCHASE',
+    packagePurchaseId: purchase.id,
+    amount,
+    currency: purchase.currency,
+    providerReference: reference,
+    description: `Lesson package (${purchase.lessons} lessons)`,
+    entries: [
+      { account: 'PROVIDER_CLEARING', direction: 'DEBIT', amount },
+      { account: 'STUDENT_CREDIT', userId: purchase.studentId, direction: 'CREDIT', amount }
+    ]
+  });
+};
+
+/**
+ * Move the value of one package credit into a booking's escrow.
+ * The credit itself must already have been taken off the purchase (see consumeCredit).
+ * @param tx - Prisma transaction client
+ * @param booking - Booking paid with the credit (packagePurchaseId set)
+ */
+export const redeemPackageCredit = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking
+): Promise<void> => {
+  const amount = roundMoney(booking.totalPrice);
+  if (amount <= 0 || !booking.packagePurchaseId) return;
+
+  await postLedgerTransaction(tx, {
+    type: 'CREDIT_REDEMPTION',
+    bookingId: booking.id,
+    packagePurchaseId: booking.packagePurchaseId,
+    amount,
+    currency: booking.currency,
+    description: 'Paid with lesson package credit',
+    entries: [
+      { account: 'STUDENT_CREDIT', userId: booking.studentId, direction: 'DEBIT', amount },
+      { account: 'ESCROW', direction: 'CREDIT', amount }
+    ]
+  });
+};
+
+/**
+ * Give a booking's escrowed money back to the student: as a package credit if it
+ * was paid with one, otherwise as a refund to the original payment method.
+ * A package credit is only restored when the whole credit comes back; a partial return
+ * (e.g. less a late cancellation fee) stays in the student's credit account without one.
+ * @param tx - Prisma transaction client
+ * @param booking - Booking being settled
+ * @param amount - Amount to return
+ * @param description - Ledger description
+ */
+const returnToStudent = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  amount: number,
+  description: string
+): Promise<void> => {
+  amount = roundMoney(amount);
+  if (amount <= 0) return;
+
+  if (!booking.packagePurchaseId) {
+    await refundBooking(tx, booking, amount, description);
+    return;
+  }
+
+  await postLedgerTransaction(tx, {
+    type: 'CREDIT_RETURN',
+    bookingId: booking.id,
+    packagePurchaseId: booking.packagePurchaseId,
+    amount,
+    currency: booking.currency,
+    description,
+    entries: [
+      { account: 'ESCROW', direction: 'DEBIT', amount },
+      { account: 'STUDENT_CREDIT', userId: booking.studentId, direction: 'CREDIT', amount }
+    ]
+  });
+
+  if (amount >= roundMoney(booking.totalPrice)) {
+    await tx.packagePurchase.update({
+      where: { id: booking.packagePurchaseId },
+      data: { creditsRemaining: { increment: 1 } }
+    });
+  }
+};
+
+/**
+ * Settle a cancelled booking according to the stored cancellation outcome.
+ * Student late cancellations pay the fee to the tutor; tutor late cancellations
+ * refund the student in full and charge the penalty against the tutor's balance.
+ * Bookings paid with a package credit get the credit back instead of a refund.
+ */
+const settleCancellation = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  escrow: number
+): Promise<void> => {
+  const fee = booking.lateCancellation ? booking.cancellationFee || 0 : 0;
+
+  if (fee > 0 && booking.cancelledById === booking.studentId) {
+    const kept = Math.min(fee, escrow);
+    await releaseToTutor(tx, booking, kept, 'Late cancellation fee');
+    await returnToStudent(tx, booking, escrow - kept, 'Cancelled booking (less late cancellation fee)');
+    return;
+  }
+
+  await returnToStudent(tx, booking, escrow, 'Cancelled booking');
+
+  if (fee > 0 && booking.cancelledById === booking.tutorId) {
+    const penalty = roundMoney(fee);
+    await postLedgerTransaction(tx, {
+      type: 'PENALTY',
+      bookingId: booking.id,
+      amount: penalty,
+      currency: booking.currency,
+      description: 'Tutor late cancellation penalty',
+      entries: [
+        { account: 'TUTOR_PAYABLE', userId: booking.tutorId, direction: 'DEBIT', amount: penalty },
+        { account: 'PLATFORM_REVENUE', direction: 'CREDIT', amount: penalty }
+      ]
+    });
+  }
+};
+
+/**
+ * Record the money movements implied by a booking's new status.
+ * Called by transitionBooking inside the transaction that changes the status.
+ * @param tx - Prisma transaction client
+ * @param booking - Booking after the transition
+ */
+export const settleBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking
+): Promise<void> => {
+  switch (booking.status) {
+    case 'COMPLETED': {
+      const escrow = await getEscrowBalance(tx, booking.id);
+      await releaseToTutor(tx, booking, escrow, 'Session completed');
+      return;
+    }
+
+    case 'REJECTED':
+    case 'EXPIRED': {
+      const escrow = await getEscrowBalance(tx, booking.id);
+      await returnToStudent(tx, booking, escrow, `Booking ${booking.status.toLowerCase()}`);
+      return;
+    }
+
+    case 'CANCELLED': {
+      const escrow = await getEscrowBalance(tx, booking.id);
+      await settleCancellation(tx, booking, escrow);
+      return;
+    }
+
+    case 'NO_SHOW': {
+      const report = await tx.noShowReport.findUnique({ where: { bookingId: booking.id } });
+
+      if (report && report.absentUserId === booking.tutorId) {
+        // Tutor missed the session: take back any earnings and refund the student
+        await reverseRelease(tx, booking, 'Tutor no-show');
+        const escrow = await getEscrowBalance(tx, booking.id);
+        await returnToStudent(tx, booking, escrow, 'Tutor no-show');
+      } else {
+        // Student missed the session: the tutor is paid as if it took place
+        const escrow = await getEscrowBalance(tx, booking.id);
+        await releaseToTutor(tx, booking, escrow, 'Student no-show');
+      }
+      return;
+    }
+
+    default:
+      // PENDING/CONFIRMED keep the payment in escrow
+      return;
+  }
+};
+
+/**
+ * Record the charge or refund of the difference after a booking's price changed
+ * (e.g. reschedule to a new length). A price increase must already have been charged
+ * (see chargeBookingDifference), since the provider is not called inside the transaction.
+ * @param tx - Prisma transaction client
+ * @param booking - Booking with its new price
+ * @param previousTotal - Price before the change
+ * @param charge - Charge made for the increase
+ */
+export const adjustBookingCharge = async (
+  tx: Prisma.TransactionClient,
+  booking: LedgerBooking,
+  previousTotal: number,
+  charge: ProviderCharge | null
+): Promise<void> => {
+  const difference = roundMoney(booking.totalPrice - previousTotal);
+
+  if (difference > 0) {
+    if (!charge || charge.amount !== difference) {
+      throw new Error(`Booking ${booking.id}: price increase of ${difference} was not charged`);
+    }
+    await recordBookingCharge(
+      tx,
+      booking,
+      difference,
+      charge.reference,
+      'Reschedule price difference'
+    );
+  } else if (difference < 0) {
+    await refundBooking(tx, booking, -difference, 'Reschedule price difference');
+  }
+};
+
+/**
+ * Record a payout of a tutor's whole payable balance. The payout is sent with
+ * sendProviderOperation once the transaction has committed.
+ * @param tx - Prisma transaction client
+ * @param tutorId - Tutor's user ID
+ * @returns Payout transaction, or null if there is nothing to pay out
+ */
+export const payoutTutor = async (
+  tx: Prisma.TransactionClient,
+  tutorId: string
+): Promise<LedgerTransaction | null> => {
+  const balance = await getAccountBalance(tx, 'TUTOR_PAYABLE', tutorId);
+  if (balance <= 0) return null;
+
+  return postLedgerTransaction(tx, {
+    type: 'PAYOUT',
+    amount: balance,
+    currency: DEFAULT_CURRENCY,
+    providerStatus: 'PENDING',
+    description: 'Tutor payout',
+    entries: [
+      { account: 'TUTOR_PAYABLE', userId: tutorId, direction: 'DEBIT', amount: balance },
+      { account: 'PROVIDER_CLEARING', direction: 'CREDIT', amount: balance }
+    ]
+  });
+};
+
+/**
+ * Send a recorded refund or payout to the payment provider. The ledger transaction ID is the
+ * idempotency key, so sending it again (e.g. after a timeout) never moves the money twice.
+ * A declined payout is reversed so the tutor's balance can be paid out again; a declined
+ * refund is marked failed and logged, as the student's money then needs manual follow-up.
+ * Throws PaymentProviderError when the provider declines the operation.
+ * @param client - Prisma client
+ * @param transactionId - Ledger transaction of the refund or payout
+ * @returns Ledger transaction after sending
+ */
+export const sendProviderOperation = async (
+  client: PrismaClient,
+  transactionId: string
+): Promise<LedgerTransaction> => {
+  const operation = await client.ledgerTransaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: { entries: true }
+  });
+
+  if (operation.providerStatus !== 'PENDING') {
+    return operation;
+  }
+
+  const idempotencyKey = `ledger:${operation.id}`;
+  // Payouts debit the tutor's payable balance; refunds name the charge they give back
+  const tutorEntry = operation.entries.find((entry) => entry.account === 'TUTOR_PAYABLE');
+
+  try {
+    const { reference } =
+      operation.type === 'PAYOUT'
+        ? await getPaymentProvider().payout({
+            recipientId: tutorEntry?.userId as string,
+            amount: operation.amount,
+            currency: operation.currency,
+            idempotencyKey
+          })
+        : await getPaymentProvider().refund({
+            chargeReference: operation.chargeReference as string,
+            amount: operation.amount,
+            currency: operation.currency,
+            idempotencyKey
+          });
+
+    await client.ledgerTransaction.updateMany({
+      where: { id: operation.id, providerStatus: 'PENDING' },
+      data: { providerStatus: 'SENT', providerReference: reference }
+    });
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+
+    await client.$transaction(async (tx) => {
+      // Only the attempt that marks it failed reverses it
+      const failed = await tx.ledgerTransaction.updateMany({
+        where: { id: operation.id, providerStatus: 'PENDING' },
+        data: { providerStatus: 'FAILED' }
+      });
+
+      if (failed.count > 0 && operation.type === 'PAYOUT') {
+        await postLedgerTransaction(tx, {
+          type: 'REVERSAL',
+          amount: operation.amount,
+          currency: operation.currency,
+          description: `Declined payout: ${error.message}`,
+          entries: operation.entries.map((entry) => ({
+            account: entry.account,
+            userId: entry.userId,
+            direction: entry.direction === 'DEBIT' ? 'CREDIT' : 'DEBIT',
+            amount: entry.amount
+          }))
+        });
+      }
+    });
+
+    if (operation.type !== 'PAYOUT') {
+      console.error(
+        `Refund ${operation.id} of ${operation.amount} ${operation.currency} for booking ` +
+          `${operation.bookingId} was declined; refund the student manually`,
+        error
+      );
+    }
+    throw error;
+  }
+
+  return client.ledgerTransaction.findUniqueOrThrow({ where: { id: operation.id } });
+};
+
+/**
+ * Send refunds and payouts that are recorded but not yet sent, e.g. the refunds of a booking
+ * that was just cancelled. Failures are logged and left for the next attempt (declined
+ * operations are not retried).
+ * @param client - Prisma client
+ * @param where - Which operations to send
+ * @param limit - Maximum number of operations to send
+ * @returns Number of operations sent
+ */
+export const sendPendingProviderOperations = async (
+  client: PrismaClient,
+  where: Prisma.LedgerTransactionWhereInput = {},
+  limit?: number
+): Promise<number> => {
+  const operations = await client.ledgerTransaction.findMany({
+    where: { ...where, providerStatus: 'PENDING' },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: limit
+  });
+
+  let sent = 0;
+  for (const operation of operations) {
+    try {
+      const result = await sendProviderOperation(client, operation.id);
+      if (result.providerStatus === 'SENT') sent++;
+    } catch (error) {
+      if (!(error instanceof PaymentProviderError)) {
+        console.error(`Failed to send payment operation ${operation.id}:`, error);
+      }
+    }
+  }
+
+  return sent;
+};
@@ -0,0 +1,98 @@
+import { Prisma, PrismaClient, PackagePurchase } from '@prisma/client';
+import { PriceSnapshot, roundMoney } from './pricing';
+
+export interface CreditBalance {
+  studentId: string;
+  tutorId: string;
+  duration: number; // Lesson length the credits are valid for
+  credits: number;
+  value: number; // Combined value of the remaining credits
+}
+
+/**
+ * Price snapshot for a booking paid with a package credit (the credit's value)
+ * @param purchase - Purchase the credit comes from
+ * @returns Rate, currency and total price of the session
+ */
+export const getCreditPriceSnapshot = (
+  purchase: Pick<PackagePurchase, 'pricePerLesson' | 'currency' | 'duration'>
+): PriceSnapshot => ({
+  hourlyRate: roundMoney(purchase.pricePerLesson * (60 / purchase.duration)),
+  currency: purchase.currency,
+  totalPrice: purchase.pricePerLesson
+});
+
+/**
+ * Take one credit off the oldest package purchase usable for a booking
+ * @param tx - Prisma transaction client
+ * @param studentId - Student booking the lesson
+ * @param tutorId - Tutor the credits were bought from
+ * @param duration - Booked lesson length (must match the package's lesson length)
+ * @returns Purchase the credit was taken from, or null if the student has none
+ */
+export const consumeCredit = async (
+  tx: Prisma.TransactionClient,
+  studentId: string,
+  tutorId: string,
+  duration: number
+): Promise<PackagePurchase | null> => {
+  const purchase = await tx.packagePurchase.findFirst({
+    where: {
+      studentId,
+      tutorId,
+      duration,
+      creditsRemaining: { gt: 0 }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    }
+  });
+
+  if (!purchase) return null;
+
+  return tx.packagePurchase.update({
+    where: { id: purchase.id },
+    data: { creditsRemaining: { decrement: 1 } }
+  });
+};
+
+/**
+ * Sum remaining credits per student, tutor and lesson length
+ * @param client - Prisma client
+ * @param where - Which purchases to include (e.g. one student's or one tutor's)
+ * @returns Credit balances with at least one credit left
+ */
+export const getCreditBalances = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  where: Prisma.PackagePurchaseWhereInput
+): Promise<CreditBalance[]> => {
+  const purchases = await client.packagePurchase.findMany({
+    where: { ...where, creditsRemaining: { gt: 0 } },
+    select: {
+      studentId: true,
+      tutorId: true,
+      duration: true,
+      pricePerLesson: true,
+      creditsRemaining: true
+    }
+  });
+
+  const balances = new Map<string, CreditBalance>();
+
+  purchases.forEach((purchase) => {
+    const key = `${purchase.studentId}:${purchase.tutorId}:${purchase.duration}`;
+    const balance = balances.get(key) || {
+      studentId: purchase.studentId,
+      tutorId: purchase.tutorId,
+      duration: purchase.duration,
+      credits: 0,
+      value: 0
+    };
+
+    balance.credits += purchase.creditsRemaining;
+    balance.value = roundMoney(balance.value + purchase.creditsRemaining * purchase.pricePerLesson);
+    balances.set(key, balance);
+  });
+
+  return Array.from(balances.values());
+};
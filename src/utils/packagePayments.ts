@@ -0,0 +1,112 @@
+import { PrismaClient, PackagePurchase } from '@prisma/client';
+import { recordPackageCharge } from './ledger';
+import { getPaymentProvider, PaymentProviderError } from './paymentProvider';
+import { roundMoney } from './pricing';
+
+/**
+ * Give back a package charge the provider made but the ledger does not hold
+ * @param purchase - Purchase the charge was for
+ * @param amount - Amount charged
+ * @param chargeReference - Provider reference of the charge
+ * @param chargeKey - Idempotency key the charge was made with
+ */
+const voidUnrecordedCharge = async (
+  purchase: PackagePurchase,
+  amount: number,
+  chargeReference: string,
+  chargeKey: string
+): Promise<void> => {
+  try {
+    await getPaymentProvider().refund({
+      chargeReference,
+      amount,
+      currency: purchase.currency,
+      idempotencyKey: `${chargeKey}:void`
+    });
+  } catch (error) {
+    console.error(
+      `Package purchase ${purchase.id}: charge ${chargeReference} was not recorded and could ` +
+        'not be voided; check the payment and the purchase manually',
+      error
+    );
+  }
+};
+
+/**
+ * Charge the student for a package purchase saved with a pending payment, record the charge
+ * and add the purchased credits. Runs outside any database transaction, after the purchase
+ * is committed; the idempotency key never changes, so retrying never charges twice. If the
+ * charge goes through but cannot be recorded, it is refunded and the purchase marked failed.
+ * Throws PaymentProviderError (after marking the purchase failed) when the charge is declined.
+ * @param client - Prisma client
+ * @param purchaseId - Package purchase ID
+ * @returns Purchase after the attempt
+ */
+export const capturePackagePayment = async (
+  client: PrismaClient,
+  purchaseId: string
+): Promise<PackagePurchase> => {
+  const purchase = await client.packagePurchase.findUniqueOrThrow({
+    where: { id: purchaseId }
+  });
+
+  if (purchase.paymentStatus !== 'PENDING') {
+    return purchase;
+  }
+
+  const amount = roundMoney(purchase.totalPrice);
+  const idempotencyKey = `package:${purchase.id}:charge`;
+
+  let charge: { reference: string } | null = null;
+  if (amount > 0) {
+    try {
+      charge = await getPaymentProvider().charge({
+        customerId: purchase.studentId,
+        amount,
+        currency: purchase.currency,
+        idempotencyKey,
+        description: 'Lesson package'
+      });
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        await client.packagePurchase.updateMany({
+          where: { id: purchase.id, paymentStatus: 'PENDING' },
+          data: { paymentStatus: 'FAILED' }
+        });
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const result = await client.$transaction(async (tx) => {
+      // Only the request (or scheduler run) that claims the pending payment records the charge
+      const claimed = await tx.packagePurchase.updateMany({
+        where: { id: purchase.id, paymentStatus: 'PENDING' },
+        data: { paymentStatus: 'PAID', creditsRemaining: purchase.lessons }
+      });
+
+      if (claimed.count > 0 && charge) {
+        await recordPackageCharge(tx, purchase, amount, charge.reference);
+      }
+
+      return tx.packagePurchase.findUniqueOrThrow({ where: { id: purchase.id } });
+    });
+
+    // Failed while it was being charged
+    if (result.paymentStatus !== 'PAID' && charge) {
+      await voidUnrecordedCharge(purchase, amount, charge.reference, idempotencyKey);
+    }
+
+    return result;
+  } catch (error) {
+    if (charge) {
+      await voidUnrecordedCharge(purchase, amount, charge.reference, idempotencyKey);
+      await client.packagePurchase.updateMany({
+        where: { id: purchase.id, paymentStatus: 'PENDING' },
+        data: { paymentStatus: 'FAILED' }
+      });
+    }
+    throw error;
+  }
+};
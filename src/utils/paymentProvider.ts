@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+
+export interface ChargeRequest {
+  customerId: string; // Student being charged
+  amount: number;
+  currency: string;
+  idempotencyKey: string; // Retried calls with the same key must not charge twice
+  description?: string;
+}
+
+export interface RefundRequest {
+  chargeReference: string; // Provider reference of the original charge
+  amount: number;
+  currency: string;
+  idempotencyKey: string;
+}
+
+export interface PayoutRequest {
+  recipientId: string; // Tutor receiving the payout
+  amount: number;
+  currency: string;
+  idempotencyKey: string;
+}
+
+export interface ProviderResult {
+  reference: string; // Provider's ID for the charge/refund/payout
+}
+
+/**
+ * Interface every payment provider integration implements.
+ * Calls are never made inside a database transaction: charges are made first and recorded
+ * afterwards (and refunded if recording fails), while refunds and payouts are recorded first
+ * and sent once the transaction commits. Either way calls can be retried, so implementations
+ * must honour idempotency keys.
+ */
+export interface PaymentProvider {
+  name: string;
+  charge(request: ChargeRequest): Promise<ProviderResult>;
+  refund(request: RefundRequest): Promise<ProviderResult>;
+  payout(request: PayoutRequest): Promise<ProviderResult>;
+}
+
+/**
+ * Error raised by a provider when it declines or fails an operation
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+// Results of earlier calls, keyed by idempotency key
+const fakeResults = new Map<string, ProviderResult>();
+
+/**
+ * Create a fake result, replaying the stored one for a repeated idempotency key
+ */
+const fakeOperation = (prefix: string, idempotencyKey: string): ProviderResult => {
+  const existing = fakeResults.get(idempotencyKey);
+  if (existing) return existing;
+
+  const result = { reference: `fake_${prefix}_${randomUUID()}` };
+  fakeResults.set(idempotencyKey, result);
+  return result;
+};
+
+/**
+ * Local provider for development and tests: accepts everything and moves no real money.
+ * Set FAKE_PAYMENTS_DECLINE=true to simulate declined charges.
+ */
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+
+  async charge(request) {
+    if (process.env.FAKE_PAYMENTS_DECLINE === 'true') {
+      throw new PaymentProviderError('Payment declined');
+    }
+    return fakeOperation('ch', request.idempotencyKey);
+  },
+
+  async refund(request) {
+    return fakeOperation('re', request.idempotencyKey);
+  },
+
+  async payout(request) {
+    return fakeOperation('po', request.idempotencyKey);
+  }
+};
+
+// Available providers, selected with the PAYMENT_PROVIDER environment variable
+const providers = new Map<string, PaymentProvider>([[fakePaymentProvider.name, fakePaymentProvider]]);
+
+/**
+ * Register a payment provider implementation
+ * @param provider - Provider to make available under its name
+ */
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+// Environments where the fake provider is used when PAYMENT_PROVIDER is not set
+const FAKE_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Get the name of the configured payment provider. Outside development and tests the
+ * provider must be chosen explicitly, so a deployment never falls back to fake payments.
+ * @returns Provider name
+ */
+const getPaymentProviderName = (): string => {
+  const name = process.env.PAYMENT_PROVIDER?.trim();
+  if (name) return name;
+
+  if (FAKE_PROVIDER_ENVIRONMENTS.includes(process.env.NODE_ENV || '')) {
+    return fakePaymentProvider.name;
+  }
+
+  throw new Error(
+    `PAYMENT_PROVIDER must be set when NODE_ENV is not ${FAKE_PROVIDER_ENVIRONMENTS.join(' or ')}`
+  );
+};
+
+/**
+ * Get the configured payment provider (the fake provider in development and tests
+ * unless PAYMENT_PROVIDER is set)
+ * @returns Payment provider
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = getPaymentProviderName();
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  return provider;
+};
+
+/**
+ * Check the payment provider configuration at startup, after providers are registered,
+ * so a missing or unknown provider stops the server instead of failing the first payment
+ */
+export const validatePaymentProvider = (): void => {
+  const provider = getPaymentProvider();
+  console.log(`💳 Payment provider: ${provider.name}`);
+};
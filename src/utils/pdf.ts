@@ -0,0 +1,79 @@
+// A4 page size in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const VALUE_COLUMN = 400; // x position of right-hand values
+
+export interface PdfLine {
+  text: string;
+  value?: string; // Printed in a second column (e.g. an amount)
+  size?: number; // Font size in points (default 11)
+  bold?: boolean;
+  spaceBefore?: number; // Extra space above the line in points
+}
+
+/**
+ * Escape text for a PDF string literal, replacing characters the standard fonts cannot show
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+const escapePdfText = (text: string): string => {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+/**
+ * Render lines of text as a single-page A4 PDF using the built-in Helvetica fonts.
+ * Lines that do not fit on the page are left out.
+ * @param lines - Lines from top to bottom
+ * @returns PDF file contents
+ */
+export const renderTextPdf = (lines: PdfLine[]): Buffer => {
+  const commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size || 11;
+    y -= (line.spaceBefore || 0) + size * 1.4;
+    if (y < MARGIN) break;
+
+    const font = line.bold ? 'F2' : 'F1';
+    commands.push(`BT /${font} ${size} Tf ${MARGIN} ${y} Td (${escapePdfText(line.text)}) Tj ET`);
+    if (line.value !== undefined) {
+      commands.push(
+        `BT /${font} ${size} Tf ${VALUE_COLUMN} ${y} Td (${escapePdfText(line.value)}) Tj ET`
+      );
+    }
+  }
+
+  const content = commands.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  // Build the file while recording each object's byte offset for the cross-reference table
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
@@ -0,0 +1,187 @@
+import { Prisma, PrismaClient, CommissionRule } from '@prisma/client';
+import { roundMoney } from './pricing';
+import { getAncestorIds } from './categoryTree';
+import { readNumberEnv } from './env';
+
+// Commission rate used when no active GLOBAL rule exists (0-1)
+export const DEFAULT_COMMISSION_RATE = readNumberEnv('DEFAULT_COMMISSION_RATE', 0.15, {
+  min: 0,
+  max: 1
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ISO 3166-1 country code, optionally followed by an ISO 3166-2 subdivision (e.g. GB, US-CA)
+const REGION_PATTERN = /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/;
+
+export interface FeeRates {
+  commissionRate: number;
+  taxRate: number;
+  taxRegion: string | null; // Region whose tax rate applied
+}
+
+export interface FeeSnapshot extends FeeRates {
+  commissionAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * Normalize a region code as typed by a user
+ * @param region - Raw region code
+ * @returns Trimmed, uppercase region code
+ */
+export const normalizeRegion = (region: string): string => {
+  return region.trim().toUpperCase();
+};
+
+/**
+ * Check that a normalized region code is a country or country subdivision code
+ * @param region - Region code
+ * @returns True if valid
+ */
+export const isValidRegion = (region: string): boolean => {
+  return REGION_PATTERN.test(region);
+};
+
+/**
+ * Pick the commission rate for a tutor.
+ * NEW_TUTOR rules win over CATEGORY rules, which win over GLOBAL rules;
+ * when several rules of the winning scope match, the lowest rate applies.
+ * @param rules - Active commission rules
+ * @param tutor - Tutor's categories (with their ancestors) and sign-up date
+ * @param now - Time the booking is made
+ * @returns Commission rate (0-1)
+ */
+export const resolveCommissionRate = (
+  rules: CommissionRule[],
+  tutor: { categoryIds: string[]; createdAt: Date },
+  now: Date = new Date()
+): number => {
+  const tutorAgeDays = (now.getTime() - tutor.createdAt.getTime()) / DAY_MS;
+
+  const matching = (rule: CommissionRule): boolean => {
+    switch (rule.scope) {
+      case 'NEW_TUTOR':
+        return rule.newTutorDays !== null && tutorAgeDays < rule.newTutorDays;
+      case 'CATEGORY':
+        return rule.categoryId !== null && tutor.categoryIds.includes(rule.categoryId);
+      default:
+        return true;
+    }
+  };
+
+  for (const scope of ['NEW_TUTOR', 'CATEGORY', 'GLOBAL']) {
+    const rates = rules
+      .filter((rule) => rule.active && rule.scope === scope && matching(rule))
+      .map((rule) => rule.rate);
+
+    if (rates.length > 0) return Math.min(...rates);
+  }
+
+  return DEFAULT_COMMISSION_RATE;
+};
+
+/**
+ * Look up the commission and tax rates that apply to a new booking
+ * @param client - Prisma client or transaction client
+ * @param tutorId - Tutor's user ID
+ * @param studentId - Student's user ID (their region decides the tax)
+ * @param now - Time the booking is made
+ * @returns Commission rate, tax rate and the region the tax rate belongs to
+ */
+export const getFeeRates = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  tutorId: string,
+  studentId: string,
+  now: Date = new Date()
+): Promise<FeeRates> => {
+  const [tutor, student, rules] = await Promise.all([
+    client.user.findUniqueOrThrow({
+      where: { id: tutorId },
+      select: {
+        createdAt: true,
+        tutorProfile: {
+          select: {
+            categories: { select: { id: true } }
+          }
+        }
+      }
+    }),
+    client.user.findUniqueOrThrow({
+      where: { id: studentId },
+      select: { region: true }
+    }),
+    client.commissionRule.findMany({
+      where: { active: true }
+    })
+  ]);
+
+  // A rule on a category also covers tutors in its subcategories
+  const directIds = tutor.tutorProfile?.categories.map((category) => category.id) || [];
+  const ancestorIds = await Promise.all(directIds.map((id) => getAncestorIds(client, id)));
+  const commissionRate = resolveCommissionRate(
+    rules,
+    {
+      categoryIds: [...new Set([...directIds, ...ancestorIds.flat()])],
+      createdAt: tutor.createdAt
+    },
+    now
+  );
+
+  if (!student.region) {
+    return { commissionRate, taxRate: 0, taxRegion: null };
+  }
+
+  // A subdivision rate (US-CA) takes precedence over its country's rate (US)
+  const country = student.region.split('-')[0];
+  const taxRates = await client.taxRate.findMany({
+    where: {
+      region: { in: [student.region, country] },
+      active: true
+    }
+  });
+  const taxRate =
+    taxRates.find((rate) => rate.region === student.region) ||
+    taxRates.find((rate) => rate.region === country);
+
+  return {
+    commissionRate,
+    taxRate: taxRate?.rate || 0,
+    taxRegion: taxRate?.region || null
+  };
+};
+
+/**
+ * Split an amount paid for a session into tax, platform commission and the tutor's share.
+ * Prices include tax; commission is taken from the amount net of tax.
+ * @param amount - Amount paid (tax included)
+ * @param rates - Commission and tax rates of the booking
+ * @returns Tax, commission and tutor amounts (adding up to amount)
+ */
+export const splitAmount = (
+  amount: number,
+  rates: Pick<FeeRates, 'commissionRate' | 'taxRate'>
+): { tax: number; commission: number; tutor: number } => {
+  const tax = roundMoney((amount * rates.taxRate) / (1 + rates.taxRate));
+  const commission = roundMoney((amount - tax) * rates.commissionRate);
+
+  return { tax, commission, tutor: roundMoney(amount - tax - commission) };
+};
+
+/**
+ * Compute the fee snapshot stored on a booking alongside its price snapshot
+ * @param totalPrice - Booking's total price (tax included)
+ * @param rates - Commission and tax rates that apply
+ * @returns Rates and the commission and tax amounts of the price
+ */
+export const getFeeSnapshot = (totalPrice: number, rates: FeeRates): FeeSnapshot => {
+  const { tax, commission } = splitAmount(totalPrice, rates);
+
+  return {
+    commissionRate: rates.commissionRate,
+    commissionAmount: commission,
+    taxRate: rates.taxRate,
+    taxAmount: tax,
+    taxRegion: rates.taxRegion
+  };
+};
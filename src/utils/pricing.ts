@@ -0,0 +1,36 @@
+// Currency every price on the platform is expressed in
+export const DEFAULT_CURRENCY = process.env.DEFAULT_CURRENCY || 'USD';
+
+export interface PriceSnapshot {
+  hourlyRate: number; // Rate agreed when the booking was made
+  currency: string;
+  totalPrice: number; // Price of the whole session
+}
+
+/**
+ * Round an amount to whole cents
+ * @param amount - Amount to round
+ * @returns Rounded amount
+ */
+export const roundMoney = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+/**
+ * Compute the price snapshot stored on a booking
+ * @param hourlyRate - Tutor's hourly rate
+ * @param duration - Duration in minutes
+ * @param currency - Currency of the rate
+ * @param discount - Amount taken off the price (e.g. promo code)
+ * @returns Rate, currency and total price of the session
+ */
+export const getPriceSnapshot = (
+  hourlyRate: number,
+  duration: number,
+  currency: string = DEFAULT_CURRENCY,
+  discount = 0
+): PriceSnapshot => ({
+  hourlyRate,
+  currency,
+  totalPrice: roundMoney(Math.max(0, hourlyRate * (duration / 60) - discount))
+});
@@ -0,0 +1,110 @@
+import { Prisma, PromoCode, BookingStatus } from '@prisma/client';
+import { roundMoney } from './pricing';
+
+// Redemptions on bookings in these statuses no longer count towards usage limits
+export const RELEASED_BOOKING_STATUSES: BookingStatus[] = ['REJECTED', 'CANCELLED', 'EXPIRED'];
+
+interface PromoContext {
+  studentId: string;
+  tutorId: string;
+  price: number; // Session price before the discount
+  now?: Date;
+}
+
+export type PromoEvaluation =
+  | { promo: PromoCode; discount: number; error: null }
+  | { promo: null; discount: 0; error: string };
+
+/**
+ * Normalize a promo code as typed by a user
+ * @param code - Raw code
+ * @returns Trimmed, uppercase code
+ */
+export const normalizePromoCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+/**
+ * Compute the discount a promo code gives on a price
+ * @param promo - Promo code
+ * @param price - Price before the discount
+ * @returns Discount amount (never more than the price)
+ */
+export const getPromoDiscount = (
+  promo: Pick<PromoCode, 'discountType' | 'discountValue'>,
+  price: number
+): number => {
+  const discount =
+    promo.discountType === 'PERCENTAGE' ? (price * promo.discountValue) / 100 : promo.discountValue;
+
+  return roundMoney(Math.min(discount, price));
+};
+
+/**
+ * Check whether a promo code can be used for a booking and compute its discount.
+ * Should run in the transaction that records the redemption so usage caps hold.
+ * @param tx - Prisma transaction client
+ * @param code - Code entered by the student
+ * @param context - Student, tutor and price of the booking
+ * @returns Promo code and discount, or the reason it cannot be used
+ */
+export const evaluatePromoCode = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  context: PromoContext
+): Promise<PromoEvaluation> => {
+  const invalid = (error: string): PromoEvaluation => ({ promo: null, discount: 0, error });
+  const now = context.now || new Date();
+
+  const promo = await tx.promoCode.findUnique({
+    where: { code: normalizePromoCode(code) }
+  });
+
+  if (!promo || !promo.active) {
+    return invalid('Promo code is not valid');
+  }
+
+  if (promo.expiresAt && promo.expiresAt <= now) {
+    return invalid('Promo code has expired');
+  }
+
+  if (promo.tutorId && promo.tutorId !== context.tutorId) {
+    return invalid('Promo code is not valid for this tutor');
+  }
+
+  const countedRedemptions: Prisma.PromoRedemptionWhereInput = {
+    promoCodeId: promo.id,
+    booking: { status: { notIn: RELEASED_BOOKING_STATUSES } }
+  };
+
+  if (promo.maxRedemptions !== null) {
+    const used = await tx.promoRedemption.count({ where: countedRedemptions });
+    if (used >= promo.maxRedemptions) {
+      return invalid('Promo code has reached its usage limit');
+    }
+  }
+
+  if (promo.maxRedemptionsPerUser !== null) {
+    const usedByStudent = await tx.promoRedemption.count({
+      where: { ...countedRedemptions, studentId: context.studentId }
+    });
+    if (usedByStudent >= promo.maxRedemptionsPerUser) {
+      return invalid('You have already used this promo code');
+    }
+  }
+
+  if (promo.firstLessonOnly) {
+    const previousBookings = await tx.booking.count({
+      where: {
+        studentId: context.studentId,
+        tutorId: context.tutorId,
+        status: { notIn: RELEASED_BOOKING_STATUSES }
+      }
+    });
+    if (previousBookings > 0) {
+      return invalid('Promo code is only valid for a first lesson with this tutor');
+    }
+  }
+
+  return { promo, discount: getPromoDiscount(promo, context.price), error: null };
+};
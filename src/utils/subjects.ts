@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient, Subject } from '@prisma/client';
+
+/**
+ * Normalize a subject name into its slug; names with the same slug are the same subject.
+ * Must match the subject_slug function used by the subjects migration.
+ * @param name - Subject name as typed (e.g. "C++ ", "Maths & Stats")
+ * @returns Slug (e.g. "c-plus-plus", "maths-and-stats"); empty if there are no letters or digits
+ */
+export const slugifySubject = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/\+/g, ' plus ')
+    .replace(/#/g, ' sharp ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Tidy a subject name for display
+ * @param name - Subject name as typed
+ * @returns Name with surrounding and repeated whitespace removed
+ */
+export const cleanSubjectName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ');
+};
+
+// Subjects a tutor offers publicly (suggestions waiting for review are left out)
+export const offeredSubjectsSelect = () => ({
+  where: { status: 'APPROVED' as const },
+  select: {
+    id: true,
+    name: true,
+    slug: true
+  },
+  orderBy: { name: 'asc' as const }
+});
+
+/**
+ * Find the subject a name or slug refers to, following merges to the surviving subject
+ * @param client - Prisma client or transaction client
+ * @param value - Subject name or slug
+ * @returns Canonical subject, or null if no subject has that name
+ */
+export const resolveSubject = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  value: string
+): Promise<Subject | null> => {
+  const slug = slugifySubject(value);
+  if (!slug) return null;
+
+  const subject = await client.subject.findUnique({
+    where: { slug },
+    include: { mergedInto: true }
+  });
+
+  if (!subject) return null;
+
+  const { mergedInto, ...found } = subject;
+  return found.status === 'MERGED' ? mergedInto : found;
+};
+
+/**
+ * Find the subject a booking is for among the subjects a tutor offers
+ * @param client - Prisma client or transaction client
+ * @param tutorProfileId - Tutor profile ID
+ * @param value - Subject name or slug given by the student
+ * @returns The approved subject, or null if the tutor does not offer it
+ */
+export const findOfferedSubject = async (
+  client: PrismaClient | Prisma.TransactionClient,
+  tutorProfileId: string,
+  value: string
+): Promise<Subject | null> => {
+  const subject = await resolveSubject(client, value);
+  if (!subject || subject.status !== 'APPROVED') return null;
+
+  return client.subject.findFirst({
+    where: {
+      id: subject.id,
+      tutorProfiles: { some: { id: tutorProfileId } }
+    }
+  });
+};
+
+/**
+ * Turn the subject names a tutor entered into subject IDs. Known names (in any spelling
+ * with the same slug, or the name of a merged subject) map to the existing subject;
+ * unknown names are created as suggestions waiting for admin review.
+ * @param tx - Prisma transaction client
+ * @param names - Subject names entered by the tutor
+ * @param tutorId - Tutor's user ID (recorded as the suggester)
+ * @returns Distinct subject IDs, in the order entered
+ */
+export const resolveTutorSubjects = async (
+  tx: Prisma.TransactionClient,
+  names: string[],
+  tutorId: string
+): Promise<string[]> => {
+  const ids: string[] = [];
+
+  for (const name of names) {
+    let subject = await resolveSubject(tx, name);
+
+    if (!subject) {
+      // Another tutor may be suggesting the same name at the same time; a failed insert
+      // would abort the whole transaction, so skip the conflict and read the winner's row
+      await tx.$executeRaw`
+        INSERT INTO "subjects" ("id", "name", "slug", "status", "suggestedById", "updatedAt")
+        VALUES (
+          ${randomUUID()}, ${cleanSubjectName(name)}, ${slugifySubject(name)}, 'PENDING',
+          ${tutorId}, CURRENT_TIMESTAMP
+        )
+        ON CONFLICT ("slug") DO NOTHING
+      `;
+      subject = await resolveSubject(tx, name);
+    }
+
+    if (!subject) {
+      throw new Error(`Subject "${name}" could not be resolved`);
+    }
+
+    if (!ids.includes(subject.id)) ids.push(subject.id);
+  }
+
+  return ids;
+};
+
+/**
+ * Merge a duplicate subject into another: tutors offering the duplicate offer the target
+ * instead, its bookings are relabelled, and its name keeps resolving to the target.
+ * Should run in a serializable transaction.
+ * @param tx - Prisma transaction client
+ * @param source - Duplicate subject
+ * @param target - Subject that survives
+ */
+export const mergeSubjects = async (
+  tx: Prisma.TransactionClient,
+  source: Pick<Subject, 'id'>,
+  target: Pick<Subject, 'id' | 'name'>
+): Promise<void> => {
+  await tx.$executeRaw`
+    INSERT INTO "_TutorSubjects" ("A", "B")
+    SELECT ${target.id}, ts."B" FROM "_TutorSubjects" ts WHERE ts."A" = ${source.id}
+    ON CONFLICT DO NOTHING
+  `;
+  await tx.$executeRaw`DELETE FROM "_TutorSubjects" WHERE "A" = ${source.id}`;
+
+  await tx.booking.updateMany({
+    where: { subjectId: source.id },
+    data: { subjectId: target.id, subject: target.name }
+  });
+
+  // Keep merge chains one level deep so a name always resolves in one lookup
+  await tx.subject.updateMany({
+    where: { mergedIntoId: source.id },
+    data: { mergedIntoId: target.id }
+  });
+
+  await tx.subject.update({
+    where: { id: source.id },
+    data: { status: 'MERGED', mergedIntoId: target.id }
+  });
+};
@@ -0,0 +1,99 @@
+import { TutorProfile, TutorProfileStatus } from '@prisma/client';
+
+export type TutorReviewAction = 'approve' | 'reject' | 'suspend' | 'reinstate';
+
+interface ReviewRule {
+  from: TutorProfileStatus[];
+  to: TutorProfileStatus;
+  requiresReason: boolean;
+}
+
+// Every status change an admin can make to a tutor profile
+const REVIEW_TRANSITIONS: Record<TutorReviewAction, ReviewRule> = {
+  approve: { from: ['PENDING_REVIEW'], to: 'APPROVED', requiresReason: false },
+  reject: { from: ['PENDING_REVIEW'], to: 'REJECTED', requiresReason: true },
+  suspend: { from: ['APPROVED'], to: 'SUSPENDED', requiresReason: true },
+  reinstate: { from: ['SUSPENDED'], to: 'APPROVED', requiresReason: false }
+};
+
+// Statuses a tutor can submit their profile for review from
+export const SUBMITTABLE_STATUSES: TutorProfileStatus[] = ['DRAFT', 'REJECTED'];
+
+// Only profiles in this status are listed publicly and can be booked
+export const PUBLIC_TUTOR_STATUS: TutorProfileStatus = 'APPROVED';
+
+// When enabled, changing these fields on an approved profile sends it back for review
+export const REVIEW_SENSITIVE_EDITS = process.env.REVIEW_SENSITIVE_PROFILE_EDITS === 'true';
+
+interface SensitiveFields extends Pick<TutorProfile, 'hourlyRate' | 'bio'> {
+  subjectIds: string[];
+}
+
+/**
+ * Get the status a review action leads to
+ * @param action - Review action
+ * @returns Target status
+ */
+export const getReviewTarget = (action: TutorReviewAction): TutorProfileStatus => {
+  return REVIEW_TRANSITIONS[action].to;
+};
+
+/**
+ * Check whether a review action can be applied to a profile in its current status
+ * @param status - Current profile status
+ * @param action - Requested action
+ * @param reason - Reason given by the admin
+ * @returns Error message, or null if the action is allowed
+ */
+export const validateReview = (
+  status: TutorProfileStatus,
+  action: TutorReviewAction,
+  reason?: string
+): string | null => {
+  const rule = REVIEW_TRANSITIONS[action];
+
+  if (!rule.from.includes(status)) {
+    return `Cannot ${action} a tutor profile with status ${status}`;
+  }
+
+  if (rule.requiresReason && !reason) {
+    return `A reason is required to ${action} a tutor profile`;
+  }
+
+  return null;
+};
+
+/**
+ * List what a profile still needs before it can be submitted for review
+ * @param profile - Tutor profile
+ * @returns Missing items (empty if the profile is complete)
+ */
+export const getMissingProfileFields = (profile: SensitiveFields): string[] => {
+  const missing: string[] = [];
+
+  if (!profile.bio || !profile.bio.trim()) missing.push('bio');
+  if (profile.subjectIds.length === 0) missing.push('at least one subject');
+  if (!(profile.hourlyRate > 0)) missing.push('hourly rate');
+
+  return missing;
+};
+
+/**
+ * Check whether a profile update changes a field that needs review
+ * @param current - Profile before the update
+ * @param update - Fields being updated
+ * @returns True if the rate, subjects or bio change
+ */
+export const hasSensitiveChanges = (
+  current: SensitiveFields,
+  update: Partial<SensitiveFields>
+): boolean => {
+  if (update.hourlyRate !== undefined && update.hourlyRate !== current.hourlyRate) return true;
+  if (update.bio !== undefined && update.bio !== current.bio) return true;
+
+  return (
+    update.subjectIds !== undefined &&
+    (update.subjectIds.length !== current.subjectIds.length ||
+      update.subjectIds.some((id) => !current.subjectIds.includes(id)))
+  );
+};
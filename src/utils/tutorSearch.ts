@@ -0,0 +1,67 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { readNumberEnv } from './env';
+
+// Minimum trigram word similarity (0-1) for a misspelled term to count as a match
+const TRIGRAM_THRESHOLD = readNumberEnv('SEARCH_TRIGRAM_THRESHOLD', 0.4, { min: 0, max: 1 });
+
+export interface SearchMatch {
+  id: string; // Tutor profile ID
+  rank: number; // Higher is more relevant
+}
+
+/**
+ * Turn free text into a Postgres tsquery where every word must match, as a word prefix
+ * @param search - Text typed by the user
+ * @returns tsquery source (e.g. "calculus:* & exam:*"), or null if the text has no words
+ */
+export const toPrefixQuery = (search: string): string | null => {
+  const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+
+  return words.map((word) => `${word}:*`).join(' & ');
+};
+
+/**
+ * Find tutor profiles matching a free-text search over the tutor's name, subjects,
+ * category names and bio. Full-text matches with prefix matching are ranked first;
+ * trigram similarity catches misspelled terms. Only profiles passing the other filters
+ * are ranked, so every match is returned and can be counted and paginated.
+ * @param client - Prisma client
+ * @param search - Text typed by the user
+ * @param where - Filters the matching profiles must also pass
+ * @returns All matches ordered by relevance, or null if the text has no searchable words
+ */
+export const searchTutorProfiles = async (
+  client: PrismaClient,
+  search: string,
+  where: Prisma.TutorProfileWhereInput
+): Promise<SearchMatch[] | null> => {
+  const query = toPrefixQuery(search);
+  if (!query) return null;
+
+  const text = search.trim();
+  const candidateIds = (await client.tutorProfile.findMany({ where, select: { id: true } })).map(
+    (profile) => profile.id
+  );
+
+  // The <% operator uses the trigram index; its threshold is set for this transaction only
+  const [, matches] = await client.$transaction([
+    client.$queryRaw`
+      SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TRIGRAM_THRESHOLD)}, true)
+    `,
+    client.$queryRaw<SearchMatch[]>`
+      SELECT
+        tp."id",
+        (
+          ts_rank_cd(tp."searchVector", q."query", 32) +
+          word_similarity(${text}, tp."searchText")
+        )::float AS "rank"
+      FROM "tutor_profiles" tp, to_tsquery('english', ${query}) AS q("query")
+      WHERE tp."id" = ANY(${candidateIds})
+        AND (tp."searchVector" @@ q."query" OR ${text} <% tp."searchText")
+      ORDER BY "rank" DESC, tp."id"
+    `
+  ]);
+
+  return matches;
+};